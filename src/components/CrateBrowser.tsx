@@ -0,0 +1,53 @@
+import { Disc3 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { VinylRecord } from '@/hooks/useRecords';
+
+interface CrateBrowserProps {
+  records: VinylRecord[];
+  selectedId: string | null;
+  onSelect: (record: VinylRecord) => void;
+}
+
+/** A shelf of sleeves to flip through; picking one puts that record on the deck. */
+const CrateBrowser = ({ records, selectedId, onSelect }: CrateBrowserProps) => (
+  <nav aria-label="Record crate" className="mx-auto mb-6 max-w-5xl">
+    <ul className="flex gap-4 overflow-x-auto px-1 pb-3 pt-1">
+      {records.map((record) => {
+        const isSelected = record.id === selectedId;
+        return (
+          <li key={record.id} className="shrink-0">
+            <button
+              type="button"
+              onClick={() => !isSelected && onSelect(record)}
+              aria-pressed={isSelected}
+              className={cn(
+                'group w-28 text-left transition-transform sm:w-32',
+                'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-md',
+                isSelected ? '-translate-y-1' : 'hover:-translate-y-1'
+              )}
+            >
+              <div
+                className={cn(
+                  'aspect-square overflow-hidden rounded-md border bg-card shadow-md',
+                  isSelected ? 'border-primary ring-2 ring-primary/40' : 'border-border'
+                )}
+              >
+                {record.sleeveUrl ? (
+                  <img src={record.sleeveUrl} alt="" className="h-full w-full object-cover" loading="lazy" />
+                ) : (
+                  <div className="flex h-full w-full items-center justify-center">
+                    <Disc3 className="h-10 w-10 text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+              <p className="mt-2 truncate text-sm font-medium">{record.title}</p>
+              {record.artist && <p className="truncate text-xs text-muted-foreground">{record.artist}</p>}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  </nav>
+);
+
+export default CrateBrowser;
@@ -0,0 +1,62 @@
+import type { PlayerThemeGeometry } from '@/config/playerThemes';
+import { grooveRadiusPct } from '@/utils/tonearmGeometry';
+
+export interface GrooveBand {
+  index: number;
+  title: string;
+  start: number;
+  end: number;
+}
+
+interface GrooveBandsProps {
+  bands: GrooveBand[];
+  grooves: PlayerThemeGeometry['grooves'];
+  hoveredIndex: number | null;
+  onHover: (index: number | null) => void;
+  onCue: (index: number) => void;
+}
+
+/**
+ * Draws the tracklist into the vinyl: one band per track on the side facing up,
+ * with the silent gaps between them as darker rings. Radii are in percent of the
+ * record radius, so the SVG simply fills the disc.
+ */
+const GrooveBands = ({ bands, grooves, hoveredIndex, onHover, onCue }: GrooveBandsProps) => (
+  <svg
+    viewBox="-100 -100 200 200"
+    style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', zIndex: 1 }}
+    onPointerLeave={() => onHover(null)}
+  >
+    {bands.map(({ index, title, start, end }) => {
+      const outer = grooveRadiusPct(grooves, start);
+      const inner = grooveRadiusPct(grooves, end);
+      return (
+        <circle
+          key={index}
+          r={(outer + inner) / 2}
+          fill="none"
+          stroke="white"
+          strokeWidth={Math.max(0, outer - inner)}
+          strokeOpacity={hoveredIndex === index ? 0.08 : 0}
+          pointerEvents="stroke"
+          style={{ cursor: 'pointer', transition: 'stroke-opacity 150ms' }}
+          onPointerEnter={() => onHover(index)}
+          onClick={() => onCue(index)}
+          aria-label={title}
+        />
+      );
+    })}
+    {/* Gaps between tracks: a dark run of blank groove with a faint lit edge */}
+    {bands.slice(1).map(({ index, start }) => {
+      const radius = grooveRadiusPct(grooves, start);
+      return (
+        <g key={`gap-${index}`} pointerEvents="none">
+          <circle r={radius} fill="none" stroke="black" strokeOpacity={0.55} strokeWidth={1.2} />
+          <circle r={radius + 0.9} fill="none" stroke="white" strokeOpacity={0.08} strokeWidth={0.4} />
+        </g>
+      );
+    })}
+  </svg>
+);
+
+export default GrooveBands;
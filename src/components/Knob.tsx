@@ -0,0 +1,125 @@
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+
+interface KnobProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  /** Double-click returns the knob here. */
+  defaultValue?: number;
+  onChange: (value: number) => void;
+  /** Spoken and shown value, e.g. "+3 dB". */
+  formatValue?: (value: number) => string;
+  className?: string;
+}
+
+// Pointer travel (px) that sweeps the whole range
+const DRAG_RANGE_PX = 200;
+// The pointer sweeps from -135° to +135°, like a real pot
+const SWEEP_DEGREES = 270;
+
+/**
+ * Rotary control styled by the theme's `--knob-*` tokens. Drag up/down (mouse or
+ * touch), scroll, or use the keyboard; exposed to assistive tech as a slider.
+ */
+const Knob = ({ label, value, min, max, step, defaultValue, onChange, formatValue, className }: KnobProps) => {
+  const knobRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ y: number; value: number } | null>(null);
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const commit = (next: number) => {
+    const snapped = Math.round((next - min) / step) * step + min;
+    const clamped = Math.min(max, Math.max(min, Number(snapped.toFixed(6))));
+    if (clamped !== valueRef.current) onChange(clamped);
+  };
+  // The wheel listener below is attached once; it always calls the latest commit
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+
+  // React's wheel listener is passive, so it can't stop the page scrolling
+  useEffect(() => {
+    const knob = knobRef.current;
+    if (!knob) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      commitRef.current(valueRef.current + (e.deltaY < 0 ? step : -step));
+    };
+    knob.addEventListener('wheel', handleWheel, { passive: false });
+    return () => knob.removeEventListener('wheel', handleWheel);
+  }, [step]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    dragRef.current = { y: e.clientY, value };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    const travel = (dragRef.current.y - e.clientY) / DRAG_RANGE_PX;
+    commit(dragRef.current.value + travel * (max - min));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const page = step * 10;
+    const moves: Record<string, number> = {
+      ArrowUp: value + step,
+      ArrowRight: value + step,
+      ArrowDown: value - step,
+      ArrowLeft: value - step,
+      PageUp: value + page,
+      PageDown: value - page,
+      Home: min,
+      End: max,
+    };
+    if (!(e.key in moves)) return;
+    e.preventDefault();
+    commit(moves[e.key]);
+  };
+
+  const position = (value - min) / (max - min || 1);
+  const rotation = -SWEEP_DEGREES / 2 + position * SWEEP_DEGREES;
+  const valueText = formatValue ? formatValue(value) : String(value);
+
+  return (
+    <div className={cn('flex flex-col items-center gap-1.5', className)}>
+      <div
+        ref={knobRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={label}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={value}
+        aria-valuetext={valueText}
+        aria-orientation="vertical"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        onDoubleClick={() => {
+          if (defaultValue !== undefined) commit(defaultValue);
+        }}
+        className="relative h-12 w-12 cursor-grab touch-none select-none rounded-full border-2 border-[hsl(var(--knob-outline))] bg-gradient-to-br from-[hsl(var(--knob-top))] via-[hsl(var(--knob-mid))] to-[hsl(var(--knob-bottom))] shadow-[0_3px_0_0_hsl(var(--knob-edge)),0_6px_12px_-2px_hsl(var(--knob-shadow))] outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+      >
+        {/* Only the pointer turns, so the cap's lighting and shadow stay put */}
+        <span className="absolute inset-0" style={{ transform: `rotate(${rotation}deg)` }}>
+          <span className="absolute left-1/2 top-1 h-3 w-0.5 -translate-x-1/2 rounded-full bg-[hsl(var(--knob-text))]" />
+        </span>
+      </div>
+      <span className="text-[10px] font-medium uppercase tracking-wider text-muted-foreground">{label}</span>
+      <span className="text-[10px] tabular-nums text-muted-foreground">{valueText}</span>
+    </div>
+  );
+};
+
+export default Knob;
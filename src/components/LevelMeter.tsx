@@ -0,0 +1,74 @@
+import { useEffect, useRef } from 'react';
+import type { PlayerMeterStyle } from '@/config/playerThemes';
+import type { StereoAnalyser } from '@/hooks/useAudioAnalyser';
+import { usePrefersReducedMotion } from '@/hooks/usePrefersReducedMotion';
+import { cn } from '@/lib/utils';
+import {
+  createMeterReading,
+  drawMeter,
+  isMeterAtRest,
+  readMeterColours,
+  updateMeterReading,
+  type MeterColours,
+} from '@/utils/levelMeters';
+
+interface LevelMeterProps {
+  analyser: StereoAnalyser | null;
+  variant: PlayerMeterStyle;
+  /** Keeps the meters moving; once false they fall back to rest and stop redrawing. */
+  active: boolean;
+  /** Changes whenever the theme does, so the `--meter-*` colours are re-read. */
+  themeId: string;
+  className?: string;
+}
+
+// With reduced motion the meters step a few times a second instead of swinging
+const REDUCED_MOTION_INTERVAL_MS = 250;
+
+/** Live VU needles, LED ladder or spectrum of whatever the player is outputting. */
+const LevelMeter = ({ analyser, variant, active, themeId, className }: LevelMeterProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const readingRef = useRef(createMeterReading());
+  const reducedMotion = usePrefersReducedMotion();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = Math.round(canvas.clientWidth * scale);
+    canvas.height = Math.round(canvas.clientHeight * scale);
+    const reading = readingRef.current;
+
+    // Read on the first frame: the player applies the theme's tokens after this effect
+    let colours: MeterColours | null = null;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      if (colours && reducedMotion && now - last < REDUCED_MOTION_INTERVAL_MS) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+      const dt = Math.min(0.25, (now - last) / 1000);
+      last = now;
+      colours ??= readMeterColours();
+      updateMeterReading(reading, active ? analyser : null, dt, !reducedMotion);
+      drawMeter(canvas, variant, reading, colours);
+      if (active || !isMeterAtRest(reading)) frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, variant, active, themeId, reducedMotion]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label={variant === 'spectrum' ? 'Spectrum analyser' : 'Level meters'}
+      className={cn('block w-full', variant === 'vu' ? 'h-24' : 'h-16', className)}
+    />
+  );
+};
+
+export default LevelMeter;
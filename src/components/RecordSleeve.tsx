@@ -0,0 +1,114 @@
+import { Disc3 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface SleeveTrack {
+  title: string;
+  side: string;
+  /** Null until every duration on the record is known. */
+  seconds: number | null;
+  /** Share of its side the track's grooves take up, 0..1. */
+  share: number;
+}
+
+interface RecordSleeveProps {
+  title: string;
+  artist: string;
+  imageUrl: string | null;
+  /** Back cover art; without it the front shows faded behind the tracklist. */
+  backImageUrl: string | null;
+  tracks: SleeveTrack[];
+  /** The disc has been slid out onto the platter. */
+  empty: boolean;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/** Front and back of the sleeve the current record lives in; the back carries the tracklist. */
+const RecordSleeve = ({ title, artist, imageUrl, backImageUrl, tracks, empty }: RecordSleeveProps) => {
+  const sides = Array.from(new Set(tracks.map((track) => track.side)));
+
+  return (
+    <div className="mt-8 flex flex-wrap items-start justify-center gap-6">
+      {/* Front: the disc's edge peeks out until it's taken to the deck */}
+      <figure className="relative w-48 sm:w-56">
+        <div
+          aria-hidden
+          className={cn(
+            'absolute inset-[4%] flex items-center justify-center rounded-full bg-neutral-900 shadow-lg',
+            'motion-safe:transition-all motion-safe:duration-700 motion-safe:ease-out',
+            empty ? 'translate-x-[45%] opacity-0' : 'translate-x-[14%] opacity-100'
+          )}
+        >
+          <div className="h-[36%] w-[36%] rounded-full bg-muted" />
+        </div>
+        <div className="relative aspect-square overflow-hidden rounded-sm bg-card shadow-xl">
+          {imageUrl ? (
+            <img src={imageUrl} alt={`${title} sleeve`} className="h-full w-full object-cover" />
+          ) : (
+            <div className="flex h-full w-full flex-col items-center justify-center gap-2 p-4 text-center">
+              <Disc3 className="h-12 w-12 text-muted-foreground" />
+              <span className="text-sm font-semibold text-card-foreground">{title}</span>
+            </div>
+          )}
+        </div>
+        <figcaption className="mt-2 text-center">
+          <p className="truncate text-sm font-medium">{title}</p>
+          {artist && <p className="truncate text-xs text-muted-foreground">{artist}</p>}
+        </figcaption>
+      </figure>
+
+      {/* Back: tracklist with running times */}
+      <div className="relative aspect-square w-48 overflow-hidden rounded-sm bg-card shadow-xl sm:w-56">
+        {backImageUrl ? (
+          <img src={backImageUrl} alt={`${title} back cover`} className="absolute inset-0 h-full w-full object-cover" />
+        ) : (
+          imageUrl && (
+            <img src={imageUrl} alt="" className="absolute inset-0 h-full w-full scale-110 object-cover opacity-15 blur-sm" />
+          )
+        )}
+        {/* Over real back art the list gets a panel of its own to stay readable */}
+        <div
+          className={cn(
+            'relative h-full overflow-y-auto p-4 text-card-foreground',
+            backImageUrl && 'm-3 h-[calc(100%-1.5rem)] rounded-sm bg-card/85 backdrop-blur-sm'
+          )}
+        >
+          <p className="mb-2 text-xs font-semibold uppercase tracking-wider">{title}</p>
+          {sides.map((side) => (
+            <div key={side} className="mb-2">
+              {sides.length > 1 && (
+                <p className="text-[0.65rem] font-semibold uppercase tracking-wider text-muted-foreground">
+                  Side {side}
+                </p>
+              )}
+              <ol className="space-y-1">
+                {tracks
+                  .filter((track) => track.side === side)
+                  .map((track, index) => (
+                    <li key={`${side}-${index}`} className="text-xs">
+                      <div className="flex justify-between gap-2">
+                        <span className="truncate">
+                          {index + 1}. {track.title}
+                        </span>
+                        {track.seconds !== null && (
+                          <span className="shrink-0 tabular-nums text-muted-foreground">
+                            {formatDuration(track.seconds)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-0.5 h-0.5 rounded-full bg-muted">
+                        <div className="h-full rounded-full bg-primary/60" style={{ width: `${track.share * 100}%` }} />
+                      </div>
+                    </li>
+                  ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordSleeve;
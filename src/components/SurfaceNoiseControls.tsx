@@ -0,0 +1,68 @@
+import { AudioWaveform } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { SurfaceNoiseProfile } from '@/utils/surfaceNoise';
+
+interface SurfaceNoiseControlsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  profile: SurfaceNoiseProfile;
+  onLevelChange: (key: keyof SurfaceNoiseProfile, value: number) => void;
+  /** Shown only when the visitor has moved away from the theme's levels. */
+  onReset?: () => void;
+}
+
+const LAYERS: { key: keyof SurfaceNoiseProfile; label: string }[] = [
+  { key: 'crackle', label: 'Crackle' },
+  { key: 'hiss', label: 'Hiss' },
+  { key: 'rumble', label: 'Rumble' },
+  { key: 'wow', label: 'Wow' },
+  { key: 'flutter', label: 'Flutter' },
+];
+
+/** Popover for the record's surface character: an on/off switch and a level per layer. */
+const SurfaceNoiseControls = ({ enabled, onEnabledChange, profile, onLevelChange, onReset }: SurfaceNoiseControlsProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="ghost" size="sm" className="text-muted-foreground" aria-label="Surface noise">
+        <AudioWaveform className="mr-2 h-4 w-4" />
+        Surface {enabled ? 'On' : 'Off'}
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-64">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="surface-noise-enabled">Surface noise</Label>
+        <Switch id="surface-noise-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+      </div>
+      <div className="mt-4 space-y-3">
+        {LAYERS.map(({ key, label }) => (
+          <div key={key} className="space-y-1.5">
+            <div className="flex justify-between text-[10px] font-medium uppercase tracking-wider text-muted-foreground">
+              <span>{label}</span>
+              <span className="tabular-nums">{Math.round(profile[key] * 100)}%</span>
+            </div>
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[profile[key]]}
+              onValueChange={([value]) => onLevelChange(key, value)}
+              disabled={!enabled}
+              aria-label={label}
+            />
+          </div>
+        ))}
+      </div>
+      {onReset && (
+        <Button variant="outline" size="sm" className="mt-4 w-full" onClick={onReset}>
+          Use Theme Default
+        </Button>
+      )}
+    </PopoverContent>
+  </Popover>
+);
+
+export default SurfaceNoiseControls;
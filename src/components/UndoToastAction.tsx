@@ -0,0 +1,8 @@
+import { ToastAction, type ToastActionElement } from '@/components/ui/toast';
+
+/** "Undo" button for the toast shown after moving something to the Trash. */
+export const undoToastAction = (onUndo: () => void): ToastActionElement => (
+  <ToastAction altText="Undo" onClick={onUndo}>
+    Undo
+  </ToastAction>
+);
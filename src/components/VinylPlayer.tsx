@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState, useMemo, useCallback } from "react";
-import { Play, Square, SkipBack, SkipForward, Upload, Copy, RotateCcw, Rewind, FastForward } from "lucide-react";
+import { Play, Square, SkipBack, SkipForward, Upload, Copy, RotateCcw, Rewind, FastForward, FlipHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import {
@@ -7,31 +7,86 @@ import {
   getPlayerTheme,
   type PlayerTheme,
 } from "@/config/playerThemes";
+import { useAudioEngine, useAudioEngineEvents } from "@/hooks/useAudioEngine";
+import { usePlatterMotion } from "@/hooks/usePlatterMotion";
+import { DEFAULT_TONE_LEVELS, useToneControls } from "@/hooks/useToneControls";
+import { useSurfaceNoise } from "@/hooks/useSurfaceNoise";
+import { useAudioAnalyser } from "@/hooks/useAudioAnalyser";
+import Knob from "@/components/Knob";
+import SurfaceNoiseControls from "@/components/SurfaceNoiseControls";
+import LevelMeter from "@/components/LevelMeter";
+import Waveform from "@/components/Waveform";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DEFAULT_RECORD_SPEED,
+  PITCH_RANGE,
+  RECORD_SPEEDS,
+  rpmOf,
+  type RecordSpeed,
+} from "@/config/recordSpeeds";
+import GrooveBands, { type GrooveBand } from "@/components/GrooveBands";
+import VinylSurface from "@/components/VinylSurface";
+import RecordSleeve, { type SleeveTrack } from "@/components/RecordSleeve";
+import { usePrefersReducedMotion } from "@/hooks/usePrefersReducedMotion";
+import { DEFAULT_VINYL_STYLE, resolveVinylStyle, type VinylStyle } from "@/config/vinylStyles";
+import type { AudioEngineEvent } from "@/utils/audioEngine";
+import { createTonearmGeometry } from "@/utils/tonearmGeometry";
+import { audioFormatLabel, canPlayAudioType } from "@/utils/audioFormats";
+import { LABEL_SIZES, labelSrcSet, type LabelImageVariant } from "@/utils/labelImageProcessing";
 
 interface Track {
   id: number;
   title: string;
   artist: string;
   audioUrl: string;
+  mimeType?: string; // Sniffed at upload; older tracks are MP3
+  side?: string; // Record side; tracks arrive grouped by side
+  rpm?: RecordSpeed; // Speed the track was cut at
+  waveformPeaks?: number[] | null; // Amplitude envelope computed at upload
+  durationSeconds?: number | null; // Stored at upload; probed from the file when missing
+  album?: string | null;
+  trackNumber?: number | null;
+  discNumber?: number | null;
+  year?: number | null;
+  genre?: string | null;
+  composer?: string | null;
+  credits?: string | null;
+  coverUrl?: string | null;
+  labelImageUrl?: string | null; // Overrides the record's label while this track plays
+  labelImageVariants?: LabelImageVariant[] | null;
 }
 
 interface VinylPlayerProps {
   tracks: Track[];
   labelImageUrl?: string; // Optional custom center label for vinyl record
+  /** Stored sizes of the label, for srcset. */
+  labelImageVariants?: LabelImageVariant[] | null;
   /** Look & feel preset chosen by the admin. Defaults to Vintage Walnut. */
   theme?: PlayerTheme;
+  /** Record style chosen by the admin. Falls back to the theme's default. */
+  vinylStyle?: VinylStyle;
+  /** Sleeve the record comes in. With one, the disc waits in it until play is first pressed. */
+  sleeve?: { title: string; artist: string; imageUrl: string | null; backImageUrl: string | null };
+  /** Stop and slide the disc back into its sleeve, then call `onReturnedToSleeve`. */
+  returnToSleeve?: boolean;
+  onReturnedToSleeve?: () => void;
 }
 
 // Behaviour shared by every look & feel; geometry comes from the active theme.
 const BASE_CONFIG = {
-  configVersion: 12,
+  configVersion: 15,
   tonearmSpeed: {
     playMs: 1800,
     stopMs: 1200,
     playEasing: 'ease-out',
     stopEasing: 'cubic-bezier(0.4, 0, 0.2, 1)',
   },
-  vinylSpeed: 5, // seconds per rotation
+  // Platter spin-up / wind-down; audio pitch ramps with it
+  inertia: {
+    spinUpMs: 900,
+    spinDownMs: 1600,
+  },
   scrubbing: {
     enabled: true,
     showHandle: true,
@@ -45,11 +100,19 @@ const buildThemeConfig = (theme: PlayerTheme) => ({
   base: { ...theme.base },
   platter: { ...theme.platter },
   tonearm: { ...theme.tonearm },
+  grooves: { ...theme.grooves },
   angles: { ...theme.angles },
+  inertia: { ...BASE_CONFIG.inertia, ...theme.inertia },
 });
 
+// How long the motor takes to settle after a speed or pitch change
+const SPEED_CHANGE_SECONDS = 0.4;
+
+// Matches the sleeve's transition, so the needle goes down once the disc has landed
+const SLEEVE_SLIDE_MS = 700;
+
 const buildStorageKey = (themeId: string) =>
-  `vinyl-player-config-v12-${themeId}`;
+  `vinyl-player-config-v15-${themeId}`;
 
 const loadConfig = (theme: PlayerTheme) => {
   const defaults = buildThemeConfig(theme);
@@ -68,7 +131,12 @@ const loadConfig = (theme: PlayerTheme) => {
 const VinylPlayer = ({
   tracks,
   labelImageUrl = '/images/label-cobnet-strange.png',
+  labelImageVariants,
   theme = getPlayerTheme(),
+  vinylStyle,
+  sleeve,
+  returnToSleeve = false,
+  onReturnedToSleeve,
 }: VinylPlayerProps) => {
   const themeConfig = useMemo(() => buildThemeConfig(theme), [theme]);
   const storageKey = buildStorageKey(theme.id);
@@ -79,23 +147,84 @@ const VinylPlayer = ({
   const [progress, setProgress] = useState(0);
   const [calibrationMode, setCalibrationMode] = useState(false);
   const [aspectRatio, setAspectRatio] = useState(theme.base.aspectRatio);
-  const [trackDurations, setTrackDurations] = useState<number[]>([]);
+  const [trackDurations, setTrackDurations] = useState<number[]>(() => tracks.map((track) => track.durationSeconds ?? 0));
   const [isDragging, setIsDragging] = useState(false);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
   const [isLastTrackFinished, setIsLastTrackFinished] = useState(false);
+  const [awaitingFlip, setAwaitingFlip] = useState(false); // Side ended and another side exists
+  const [isFlipping, setIsFlipping] = useState(false);
+  const [isDiscOut, setIsDiscOut] = useState(!sleeve); // Without a sleeve the disc lives on the platter
   const [config, setConfig] = useState(() => loadConfig(theme));
+  const [tonearmDragAngle, setTonearmDragAngle] = useState<number | null>(null); // Held by hand (or just dropped)
+  const [isDraggingTonearm, setIsDraggingTonearm] = useState(false);
+  const [hoveredBand, setHoveredBand] = useState<number | null>(null);
+  const [needleDrop, setNeedleDrop] = useState<{ index: number; offset: number } | null>(null);
   const [referenceImage, setReferenceImage] = useState<string | null>(null);
   const [referenceOpacity, setReferenceOpacity] = useState(50);
-  const [adjustTarget, setAdjustTarget] = useState<'platter' | 'tonearm' | 'pivot' | 'angles' | 'tonearm-speed-play' | 'tonearm-speed-stop' | 'vinyl'>('platter');
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [adjustTarget, setAdjustTarget] = useState<'platter' | 'tonearm' | 'pivot' | 'stylus' | 'grooves' | 'angles' | 'tonearm-speed-play' | 'tonearm-speed-stop' | 'inertia'>('platter');
+  const engine = useAudioEngine();
+  const { levels, setLevel } = useToneControls(engine);
+  // Only while the needle is riding the groove
+  const surfaceNoise = useSurfaceNoise(engine, {
+    active: isPlaying && !isStartingPlayback && !isDraggingTonearm,
+    themeProfile: theme.surfaceNoise,
+  });
+  const analyser = useAudioAnalyser(engine);
+  const [selectedSpeed, setSelectedSpeed] = useState<RecordSpeed>(DEFAULT_RECORD_SPEED);
+  const [pitch, setPitch] = useState(0); // Fader position, -PITCH_RANGE..PITCH_RANGE
   const animationRef = useRef<number>();
   const baseImageRef = useRef<HTMLImageElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const progressBarRef = useRef<HTMLDivElement>(null);
   const needleDropSoundRef = useRef<HTMLAudioElement | null>(null);
   const runoutSoundRef = useRef<HTMLAudioElement | null>(null);
+  const rewindOnStopRef = useRef(false);
+  const tonearmRef = useRef<HTMLDivElement>(null);
+  const tonearmGrabOffsetRef = useRef(0);
+  const sleeveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const prefersReducedMotion = usePrefersReducedMotion();
+
+  // When the list changes live (e.g. the admin reorders it), stay on the same track.
+  // Done during render so the audio effects never see the old index against the new list.
+  const [previousTracks, setPreviousTracks] = useState(tracks);
+  if (previousTracks !== tracks) {
+    setPreviousTracks(tracks);
+    const playingUrl = previousTracks[currentTrackIndex]?.audioUrl;
+    const index = tracks.findIndex((track) => track.audioUrl === playingUrl);
+    if (index !== -1 && index !== currentTrackIndex) setCurrentTrackIndex(index);
+  }
 
   const currentTrack = tracks[currentTrackIndex];
+  const surfaceStyle = useMemo(
+    () => resolveVinylStyle(vinylStyle ?? theme.vinyl ?? DEFAULT_VINYL_STYLE),
+    [vinylStyle, theme]
+  );
+
+  // Record sides in play order; each side is its own spiral for the tonearm
+  const sideOf = useCallback((index: number) => tracks[index]?.side ?? 'A', [tracks]);
+  const sides = useMemo(() => Array.from(new Set(tracks.map((track) => track.side ?? 'A'))), [tracks]);
+  const sideFirstIndex = (side: string) => tracks.findIndex((track) => (track.side ?? 'A') === side);
+  const currentSide = sideOf(currentTrackIndex);
+  const nextSide = sides[(sides.indexOf(currentSide) + 1) % sides.length];
+  const isLastOnSide = useCallback(
+    (index: number) => index === tracks.length - 1 || sideOf(index + 1) !== sideOf(index),
+    [tracks.length, sideOf]
+  );
+
+  // The platter turns at the selected speed; audio plays fast or slow against the speed it was cut at
+  const nativeSpeed = currentTrack?.rpm ?? DEFAULT_RECORD_SPEED;
+  const platterRpm = rpmOf(selectedSpeed) * (1 + pitch);
+  const playbackRate = platterRpm / rpmOf(nativeSpeed);
+  const playbackRateRef = useRef(playbackRate);
+  playbackRateRef.current = playbackRate;
+
+  const { discRef, getSpeed: getPlatterSpeed, getRampSeconds, nudge: nudgePlatter } = usePlatterMotion({
+    spinning: isPlaying,
+    periodSeconds: 60 / platterRpm,
+    spinUpMs: config.inertia.spinUpMs,
+    spinDownMs: config.inertia.spinDownMs,
+    held: isDragging,
+  });
 
   // Re-calibrate and repaint the palette whenever the admin's look & feel changes
   useEffect(() => {
@@ -174,32 +303,61 @@ const VinylPlayer = ({
     [trackDurations, tracks.length]
   );
 
-  // Precompute per-track angle fractions
+  // Precompute per-track angle fractions, running 0..1 across each side
   const trackFractions = useMemo(() => {
-    const n = tracks.length;
-    if (!durationsReady || n === 0) {
-      // Equal split when durations not ready
-      return Array.from({ length: n }, (_, i) => ({
-        start: i / n,
-        end: (i + 1) / n,
-      }));
-    }
-    // Proportional split based on durations
-    const total = trackDurations.reduce((a, b) => a + b, 0);
-    let acc = 0;
-    return trackDurations.map((d) => {
-      const start = total > 0 ? acc / total : 0;
-      acc += d;
-      const end = total > 0 ? acc / total : 1 / n;
-      return { start, end };
+    const fractions: { start: number; end: number }[] = [];
+    let sideStart = 0;
+    tracks.forEach((track, index) => {
+      if (!isLastOnSide(index)) return;
+      const n = index - sideStart + 1;
+      // Proportional split based on durations, equal split when durations not ready
+      const weights = Array.from({ length: n }, (_, i) => (durationsReady ? trackDurations[sideStart + i] : 1));
+      const total = weights.reduce((a, b) => a + b, 0);
+      let acc = 0;
+      weights.forEach((d) => {
+        const start = total > 0 ? acc / total : 0;
+        acc += d;
+        const end = total > 0 ? acc / total : 1 / n;
+        fractions.push({ start, end });
+      });
+      sideStart = index + 1;
     });
-  }, [durationsReady, trackDurations, tracks.length]);
+    return fractions;
+  }, [durationsReady, trackDurations, tracks, isLastOnSide]);
+
+  // Bands cut into the side facing up
+  const grooveBands = useMemo<GrooveBand[]>(
+    () =>
+      trackFractions
+        .map(({ start, end }, index) => ({ index, title: tracks[index]?.title ?? '', start, end }))
+        .filter(({ index }) => sideOf(index) === currentSide),
+    [trackFractions, tracks, sideOf, currentSide]
+  );
 
-  // Load actual track durations on mount and preload metadata
+  // Tracklist for the back of the sleeve
+  const sleeveTracks = useMemo<SleeveTrack[]>(
+    () =>
+      trackFractions.map(({ start, end }, index) => ({
+        title: tracks[index]?.title ?? '',
+        side: sideOf(index),
+        seconds: durationsReady ? trackDurations[index] : null,
+        share: end - start,
+      })),
+    [trackFractions, tracks, sideOf, durationsReady, trackDurations]
+  );
+
+  // Use stored durations straight away; only tracks uploaded before they were recorded get probed
   useEffect(() => {
+    const stored = tracks.map((track) => track.durationSeconds ?? 0);
+    setTrackDurations(stored);
+    if (stored.every((duration) => duration > 0)) return;
+
+    let cancelled = false;
     const loadDurations = async () => {
       const durations = await Promise.all(
-        tracks.map((track) => {
+        tracks.map((track, index) => {
+          if (stored[index] > 0) return stored[index];
+          if (track.mimeType && !canPlayAudioType(track.mimeType)) return 0;
           return new Promise<number>((resolve) => {
             const audio = new Audio();
             audio.preload = 'metadata';
@@ -213,10 +371,13 @@ const VinylPlayer = ({
           });
         })
       );
-      setTrackDurations(durations);
+      if (!cancelled) setTrackDurations(durations);
     };
 
     loadDurations();
+    return () => {
+      cancelled = true;
+    };
   }, [tracks]);
 
   // Check for calibration/reset mode in URL
@@ -251,7 +412,7 @@ const VinylPlayer = ({
           break;
         case 'Tab':
           e.preventDefault();
-          const targets: typeof adjustTarget[] = ['platter', 'tonearm', 'pivot', 'angles', 'tonearm-speed-play', 'tonearm-speed-stop', 'vinyl'];
+          const targets: typeof adjustTarget[] = ['platter', 'tonearm', 'pivot', 'stylus', 'grooves', 'angles', 'tonearm-speed-play', 'tonearm-speed-stop', 'inertia'];
           const currentIndex = targets.indexOf(adjustTarget);
           setAdjustTarget(targets[(currentIndex + 1) % targets.length]);
           break;
@@ -261,10 +422,12 @@ const VinylPlayer = ({
           if (adjustTarget === 'platter') updated.platter.leftPct = Math.max(0, updated.platter.leftPct - step);
           if (adjustTarget === 'tonearm') updated.tonearm.rightPct = Math.max(0, updated.tonearm.rightPct + step);
           if (adjustTarget === 'pivot') updated.tonearm.pivotXPct = Math.max(0, updated.tonearm.pivotXPct - step);
+          if (adjustTarget === 'stylus') updated.tonearm.stylusOffsetDeg -= step;
+          if (adjustTarget === 'grooves') updated.grooves.leadInPct = Math.max(updated.grooves.leadOutPct, updated.grooves.leadInPct - step);
           if (adjustTarget === 'angles') updated.angles.REST -= step;
           if (adjustTarget === 'tonearm-speed-play') updated.tonearmSpeed.playMs = Math.max(100, updated.tonearmSpeed.playMs - stepLeft);
           if (adjustTarget === 'tonearm-speed-stop') updated.tonearmSpeed.stopMs = Math.max(100, updated.tonearmSpeed.stopMs - stepLeft);
-          if (adjustTarget === 'vinyl') updated.vinylSpeed = Math.max(1, updated.vinylSpeed - step);
+          if (adjustTarget === 'inertia') updated.inertia.spinUpMs = Math.max(0, updated.inertia.spinUpMs - stepLeft);
           break;
         case 'ArrowRight':
           e.preventDefault();
@@ -272,36 +435,40 @@ const VinylPlayer = ({
           if (adjustTarget === 'platter') updated.platter.leftPct = Math.min(100, updated.platter.leftPct + step);
           if (adjustTarget === 'tonearm') updated.tonearm.rightPct = Math.max(0, updated.tonearm.rightPct - step);
           if (adjustTarget === 'pivot') updated.tonearm.pivotXPct = Math.min(100, updated.tonearm.pivotXPct + step);
+          if (adjustTarget === 'stylus') updated.tonearm.stylusOffsetDeg += step;
+          if (adjustTarget === 'grooves') updated.grooves.leadInPct = Math.min(100, updated.grooves.leadInPct + step);
           if (adjustTarget === 'angles') updated.angles.REST += step;
           if (adjustTarget === 'tonearm-speed-play') updated.tonearmSpeed.playMs = Math.min(5000, updated.tonearmSpeed.playMs + stepRight);
           if (adjustTarget === 'tonearm-speed-stop') updated.tonearmSpeed.stopMs = Math.min(5000, updated.tonearmSpeed.stopMs + stepRight);
-          if (adjustTarget === 'vinyl') updated.vinylSpeed = Math.min(100, updated.vinylSpeed + step);
+          if (adjustTarget === 'inertia') updated.inertia.spinUpMs = Math.min(5000, updated.inertia.spinUpMs + stepRight);
           break;
         case 'ArrowUp':
           e.preventDefault();
           if (adjustTarget === 'platter') updated.platter.topPct = Math.max(0, updated.platter.topPct - step);
           if (adjustTarget === 'tonearm') updated.tonearm.topPct = Math.max(0, updated.tonearm.topPct - step);
           if (adjustTarget === 'pivot') updated.tonearm.pivotYPct = Math.max(0, updated.tonearm.pivotYPct - step);
-          if (adjustTarget === 'angles') updated.angles.START += step;
+          if (adjustTarget === 'stylus') updated.tonearm.armLengthPct = Math.min(100, updated.tonearm.armLengthPct + step);
+          if (adjustTarget === 'grooves') updated.grooves.leadOutPct = Math.min(updated.grooves.leadInPct, updated.grooves.leadOutPct + step);
+          if (adjustTarget === 'inertia') updated.inertia.spinDownMs = Math.min(8000, updated.inertia.spinDownMs + (e.shiftKey ? 200 : e.altKey ? 10 : 50));
           break;
         case 'ArrowDown':
           e.preventDefault();
           if (adjustTarget === 'platter') updated.platter.topPct = Math.min(100, updated.platter.topPct + step);
           if (adjustTarget === 'tonearm') updated.tonearm.topPct = Math.min(100, updated.tonearm.topPct + step);
           if (adjustTarget === 'pivot') updated.tonearm.pivotYPct = Math.min(100, updated.tonearm.pivotYPct + step);
-          if (adjustTarget === 'angles') updated.angles.START -= step;
+          if (adjustTarget === 'stylus') updated.tonearm.armLengthPct = Math.max(1, updated.tonearm.armLengthPct - step);
+          if (adjustTarget === 'grooves') updated.grooves.leadOutPct = Math.max(0, updated.grooves.leadOutPct - step);
+          if (adjustTarget === 'inertia') updated.inertia.spinDownMs = Math.max(0, updated.inertia.spinDownMs - (e.shiftKey ? 200 : e.altKey ? 10 : 50));
           break;
         case '[':
           e.preventDefault();
           if (adjustTarget === 'platter') updated.platter.sizePct = Math.max(1, updated.platter.sizePct - step);
           if (adjustTarget === 'tonearm') updated.tonearm.lengthScale = Math.max(0.5, updated.tonearm.lengthScale - 0.05);
-          if (adjustTarget === 'angles') updated.angles.END -= step;
           break;
         case ']':
           e.preventDefault();
           if (adjustTarget === 'platter') updated.platter.sizePct = Math.min(100, updated.platter.sizePct + step);
           if (adjustTarget === 'tonearm') updated.tonearm.lengthScale = Math.min(2.0, updated.tonearm.lengthScale + 0.05);
-          if (adjustTarget === 'angles') updated.angles.END += step;
           break;
         case '-':
         case '_':
@@ -368,92 +535,223 @@ const VinylPlayer = ({
   };
 
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
     const updateProgress = () => {
-      const currentProgress = (audio.currentTime / audio.duration) * 100;
-      setProgress(currentProgress);
+      const duration = engine.getDuration();
+      setProgress(duration ? (engine.getCurrentTime() / duration) * 100 : 0);
       animationRef.current = requestAnimationFrame(updateProgress);
     };
 
-    const handleEnded = () => {
-      // Check if this is the last track
-      if (currentTrackIndex === tracks.length - 1) {
-        // Last track finished - play runout sound (keep tonearm in place until sound finishes)
-        setIsLastTrackFinished(true);
-        playRunoutSound();
-      } else {
-        // Auto-advance to next track WITH playback sequence
-        setCurrentTrackIndex(currentTrackIndex + 1);
-        setIsStartingPlayback(true);
+    // Once the platter has coasted to a stop the audio is paused for real
+    let windDownTimer: ReturnType<typeof setTimeout> | undefined;
+    const finishWindDown = () => {
+      windDownTimer = undefined;
+      engine.pause();
+      engine.setPlaybackRate(1);
+      if (rewindOnStopRef.current) {
+        rewindOnStopRef.current = false;
+        engine.seek(0);
+        setProgress(0);
       }
     };
 
-    const handleLoadedMetadata = () => {
-      setProgress(0); // Trigger re-render when duration is known
-    };
-
     if (isPlaying) {
-      // Progress tracking only - play() is called in handlePlay()
+      // Progress tracking only - play() is called in the delayed playback effect
       animationRef.current = requestAnimationFrame(updateProgress);
     } else {
-      audio.pause();
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
+      if (engine.isPlaying()) {
+        // Wind-down: pitch falls with the platter
+        const rampSeconds = getRampSeconds(0);
+        engine.setPlaybackRate(0, rampSeconds);
+        windDownTimer = setTimeout(finishWindDown, rampSeconds * 1000);
+      } else {
+        finishWindDown();
+      }
     }
 
-    audio.addEventListener("ended", handleEnded);
-    audio.addEventListener("loadedmetadata", handleLoadedMetadata);
-
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
-      audio.removeEventListener("ended", handleEnded);
-      audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
+      if (windDownTimer) {
+        clearTimeout(windDownTimer);
+        finishWindDown();
+      }
     };
-  }, [isPlaying, currentTrackIndex, tracks.length]);
+  }, [isPlaying, engine, getRampSeconds]);
+
+  const handleEngineEvent = useCallback((event: AudioEngineEvent) => {
+    switch (event.type) {
+      case 'loaded':
+        setProgress(0); // Trigger re-render when duration is known
+        break;
+      case 'advance': {
+        // Gapless hand-over: the engine is already playing the next track, so the
+        // tonearm keeps tracking instead of lifting and dropping again
+        const index = tracks.findIndex((track) => track.audioUrl === event.url);
+        if (index !== -1) setCurrentTrackIndex(index);
+        break;
+      }
+      case 'ended':
+        // Check if this is the last track on the side
+        if (isLastOnSide(currentTrackIndex)) {
+          // Side finished - play runout sound (keep tonearm in place until sound finishes)
+          setIsLastTrackFinished(true);
+          setAwaitingFlip(sides.length > 1);
+          playRunoutSound();
+        } else {
+          // Next track wasn't decoded in time - advance WITH playback sequence
+          setCurrentTrackIndex(currentTrackIndex + 1);
+          setIsStartingPlayback(true);
+        }
+        break;
+      case 'error':
+        console.error('Audio engine error:', event.error);
+        break;
+    }
+  }, [tracks, currentTrackIndex, playRunoutSound, isLastOnSide, sides.length]);
+
+  useAudioEngineEvents(engine, handleEngineEvent);
 
   // Load new track when index changes
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    const url = currentTrack?.audioUrl;
+    if (!url) return;
+    // After a gapless advance the engine is already on this track
+    if (engine.getCurrentUrl() === url) return;
 
-    audio.load();
-    audio.currentTime = 0;
+    engine.load(url);
     setProgress(0);
     
     // Don't auto-play here - let the play sequence handle it with proper tonearm animation
     // The handleNext/handlePrevious will set isStartingPlayback if needed
-  }, [currentTrackIndex]);
+  }, [currentTrack?.audioUrl, engine]);
+
+  // Queue the following track so it starts the instant this one ends (sides end in the run-out)
+  useEffect(() => {
+    engine.setNext(isLastOnSide(currentTrackIndex) ? null : tracks[currentTrackIndex + 1]?.audioUrl ?? null);
+  }, [engine, tracks, currentTrackIndex, isLastOnSide]);
+
+  // Turn the disc over whenever the side on the platter changes
+  const previousSideRef = useRef(currentSide);
+  useEffect(() => {
+    if (previousSideRef.current === currentSide) return;
+    previousSideRef.current = currentSide;
+    setIsFlipping(true);
+    const timer = setTimeout(() => setIsFlipping(false), 800);
+    return () => clearTimeout(timer);
+  }, [currentSide]);
+
+  // Start the engine at the platter's current speed and ramp with it to full pitch
+  const startAudio = useCallback((offset?: number) => {
+    const rampSeconds = getRampSeconds(1);
+    engine.setPlaybackRate(getPlatterSpeed() * playbackRateRef.current);
+    return engine.play(offset).then(() => engine.setPlaybackRate(playbackRateRef.current, rampSeconds));
+  }, [engine, getPlatterSpeed, getRampSeconds]);
+
+  // A new record speed is cued up whenever the needle moves onto a track cut at another speed
+  useEffect(() => {
+    setSelectedSpeed(nativeSpeed);
+  }, [nativeSpeed]);
+
+  // Changing speed or pitch mid-play: the motor settles at the new rate
+  useEffect(() => {
+    if (!isPlaying || !engine.isPlaying()) return;
+    engine.setPlaybackRate(playbackRate, SPEED_CHANGE_SECONDS);
+  }, [playbackRate, isPlaying, engine]);
+
+  // Needle dropped by hand: play from where it landed once the track is loaded
+  useEffect(() => {
+    if (!needleDrop || needleDrop.index !== currentTrackIndex) return;
+    setNeedleDrop(null);
+    startAudio(needleDrop.offset)
+      .catch((error) => {
+        console.error('Playback failed after needle drop:', error);
+        setIsPlaying(false);
+      })
+      .finally(() => setTonearmDragAngle(null));
+  }, [needleDrop, currentTrackIndex, startAudio]);
 
   const handlePlay = () => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
+    // Start the AudioContext inside the click so the delayed play() is allowed
+    engine.unlock().catch((error) => {
+      console.error('Failed to start audio:', error);
+    });
+
     // Stop runout sound if it's playing
     if (isLastTrackFinished) {
       stopRunoutSound();
       setIsLastTrackFinished(false);
     }
-    
+    setAwaitingFlip(false);
+
     // Set flags to trigger tonearm animation and delayed audio playback
-    setIsStartingPlayback(true);
-    setIsPlaying(true); // Start vinyl spinning immediately
+    const start = () => {
+      setIsStartingPlayback(true);
+      setIsPlaying(true); // Start vinyl spinning immediately
+    };
+
+    // First play takes the disc out of its sleeve and onto the platter
+    if (!isDiscOut) {
+      setIsDiscOut(true);
+      if (!prefersReducedMotion) {
+        clearTimeout(sleeveTimerRef.current);
+        sleeveTimerRef.current = setTimeout(start, SLEEVE_SLIDE_MS);
+        return;
+      }
+    }
+    clearTimeout(sleeveTimerRef.current);
+    start();
   };
 
+  const isDiscOutRef = useRef(isDiscOut);
+  isDiscOutRef.current = isDiscOut;
+  const onReturnedToSleeveRef = useRef(onReturnedToSleeve);
+  onReturnedToSleeveRef.current = onReturnedToSleeve;
+
+  // Lift the disc off and put it back in its sleeve before another record goes on
+  useEffect(() => {
+    if (!returnToSleeve) return;
+    const slideMs = isDiscOutRef.current && !prefersReducedMotion ? SLEEVE_SLIDE_MS : 0;
+    clearTimeout(sleeveTimerRef.current);
+    stopRunoutSound();
+    setIsLastTrackFinished(false);
+    setAwaitingFlip(false);
+    setIsPlaying(false);
+    setIsDiscOut(false);
+    sleeveTimerRef.current = setTimeout(() => onReturnedToSleeveRef.current?.(), slideMs);
+  }, [returnToSleeve, prefersReducedMotion, stopRunoutSound]);
+
+  useEffect(() => {
+    const timerRef = sleeveTimerRef;
+    return () => clearTimeout(timerRef.current);
+  }, []);
+
   const handleStop = () => {
     stopRunoutSound();
     setIsLastTrackFinished(false);
+    setAwaitingFlip(false);
     setIsPlaying(false);
     setIsInitialPlay(true); // Reset so next play simulates placing needle again
-    const audio = audioRef.current;
-    if (audio) {
-      audio.currentTime = 0;
-      setProgress(0);
-    }
+    rewindOnStopRef.current = true; // Back to the start once the platter has wound down
+  };
+
+  // Turn the record over and drop the needle at the start of the next side
+  const handleFlip = () => {
+    const index = sideFirstIndex(nextSide);
+    if (index === -1) return;
+    engine.unlock().catch((error) => {
+      console.error('Failed to start audio:', error);
+    });
+    stopRunoutSound();
+    setIsLastTrackFinished(false);
+    setAwaitingFlip(false);
+    setIsInitialPlay(true); // Needle goes down on a fresh side
+    setCurrentTrackIndex(index);
+    setIsStartingPlayback(true);
+    setIsPlaying(true);
   };
 
   const handlePrevious = () => {
@@ -468,11 +766,8 @@ const VinylPlayer = ({
       }
     } else {
       // Stay at track 0, just reset position
-      const audio = audioRef.current;
-      if (audio) {
-        audio.currentTime = 0;
-        setProgress(0);
-      }
+      engine.seek(0);
+      setProgress(0);
     }
   };
 
@@ -492,11 +787,17 @@ const VinylPlayer = ({
     }
   };
 
+  // Jump to a track from its band on the record, moving the arm over if it's playing
+  const cueTrack = (index: number) => {
+    setAwaitingFlip(false);
+    setCurrentTrackIndex(index);
+    if (isPlaying) setIsStartingPlayback(true);
+  };
+
   // Calculate global fraction based on current track segment
   const getGlobalFraction = () => {
-    const audio = audioRef.current;
-    if (!audio) return 0;
-    const within = audio.duration ? audio.currentTime / audio.duration : 0;
+    const duration = engine.getDuration();
+    const within = duration ? engine.getCurrentTime() / duration : 0;
     const { start, end } = trackFractions[currentTrackIndex] || { start: 0, end: 1 / Math.max(1, tracks.length) };
     const span = Math.max(0, end - start);
     return start + within * span;
@@ -504,11 +805,10 @@ const VinylPlayer = ({
 
   // Handle delayed audio playback when starting or changing tracks
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !isStartingPlayback || !isPlaying) return;
+    if (!isStartingPlayback || !isPlaying) return;
 
     // Stop current playback and reset
-    audio.pause();
+    engine.pause();
     
     // Wait for tonearm animation, then play needle drop and start track
     const playTimer = setTimeout(() => {
@@ -517,7 +817,7 @@ const VinylPlayer = ({
         playNeedleDropSound();
         setIsInitialPlay(false); // Mark that we've done the initial play
       }
-      audio.play().catch((error) => {
+      startAudio().catch((error) => {
         console.error('Playback failed during track change:', error);
         setIsPlaying(false);
         setIsStartingPlayback(false);
@@ -533,12 +833,23 @@ const VinylPlayer = ({
       clearTimeout(playTimer);
       clearTimeout(resetTimer);
     };
-  }, [isStartingPlayback, isPlaying, currentTrackIndex, config.tonearmSpeed.playMs, playNeedleDropSound]);
+  }, [isStartingPlayback, isPlaying, currentTrackIndex, config.tonearmSpeed.playMs, playNeedleDropSound, engine, startAudio]);
+
+  // Where the stylus meets the groove for each arm angle, from the deck geometry
+  const tonearmGeometry = useMemo(
+    () => createTonearmGeometry({ ...config, base: { aspectRatio } }, config.tonearm.lengthScale),
+    [config, aspectRatio]
+  );
 
   // Calculate tonearm rotation based on global fraction
   const getTonearmRotation = () => {
-    const audio = audioRef.current;
+    // Held by hand, or just dropped and waiting for the audio to start
+    if (tonearmDragAngle !== null) {
+      return tonearmDragAngle;
+    }
     
+    const duration = engine.getDuration();
+
     // When not playing, tonearm returns to REST position
     if (!isPlaying) {
       return config.angles.REST;
@@ -547,126 +858,227 @@ const VinylPlayer = ({
     // If just starting playback, use the track's start position
     if (isStartingPlayback) {
       if (currentTrackIndex === 0) {
-        return config.angles.START; // 14.0°
+        return tonearmGeometry.startAngle;
       }
       const trackStart = trackFractions[currentTrackIndex]?.start || 0;
-      return config.angles.START + (config.angles.END - config.angles.START) * trackStart;
+      return tonearmGeometry.angleAt(trackStart);
     }
     
     // Safety check: ensure audio is ready with valid duration
-    if (!audio || !audio.duration || isNaN(audio.duration)) {
+    if (!duration) {
       // If audio isn't ready but we're "playing", use track start position
       if (currentTrackIndex === 0) {
-        return config.angles.START; // 16.0°
+        return tonearmGeometry.startAngle;
       }
       const trackStart = trackFractions[currentTrackIndex]?.start || 0;
-      return config.angles.START + (config.angles.END - config.angles.START) * trackStart;
+      return tonearmGeometry.angleAt(trackStart);
     }
     
     // If at the very start of a track (within first 100ms), use the track's start position
-    if (audio.currentTime < 0.1) {
+    if (engine.getCurrentTime() < 0.1) {
       // Track 0 should always start at START angle (16.0°)
       if (currentTrackIndex === 0) {
-        return config.angles.START; // 16.0°
+        return tonearmGeometry.startAngle;
       }
       const trackStart = trackFractions[currentTrackIndex]?.start || 0;
-      return config.angles.START + (config.angles.END - config.angles.START) * trackStart;
+      return tonearmGeometry.angleAt(trackStart);
     }
     
     // During playback, calculate position based on track progress
     const globalFraction = getGlobalFraction();
-    return config.angles.START + (config.angles.END - config.angles.START) * globalFraction;
+    return tonearmGeometry.angleAt(globalFraction);
   };
 
   const tonearmRotation = getTonearmRotation();
 
+  // Tonearm pivot in viewport coordinates (layout box, unaffected by the rotation)
+  const getTonearmPivot = () => {
+    const arm = tonearmRef.current;
+    const deck = arm?.offsetParent as HTMLElement | null;
+    if (!arm || !deck) return null;
+    const rect = deck.getBoundingClientRect();
+    return {
+      x: rect.left + arm.offsetLeft + (arm.offsetWidth * config.tonearm.pivotXPct) / 100,
+      y: rect.top + arm.offsetTop + (arm.offsetHeight * config.tonearm.pivotYPct) / 100,
+    };
+  };
+
+  const getPointerAngle = (e: React.PointerEvent) => {
+    const pivot = getTonearmPivot();
+    if (!pivot) return null;
+    return (Math.atan2(e.clientY - pivot.y, e.clientX - pivot.x) * 180) / Math.PI;
+  };
+
+  // Pick the arm up: the needle leaves the groove, the platter keeps turning
+  const handleTonearmPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointerAngle = getPointerAngle(e);
+    if (pointerAngle === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    tonearmGrabOffsetRef.current = tonearmRotation - pointerAngle;
+    engine.pause();
+    stopRunoutSound();
+    setIsLastTrackFinished(false);
+    setIsStartingPlayback(false);
+    setTonearmDragAngle(tonearmRotation);
+    setIsDraggingTonearm(true);
+  };
+
+  const handleTonearmPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingTonearm) return;
+    const pointerAngle = getPointerAngle(e);
+    if (pointerAngle === null) return;
+    const { startAngle, endAngle } = tonearmGeometry;
+    const low = Math.min(config.angles.REST, startAngle, endAngle) - 10;
+    const high = Math.max(config.angles.REST, startAngle, endAngle) + 10;
+    setTonearmDragAngle(Math.max(low, Math.min(high, pointerAngle + tonearmGrabOffsetRef.current)));
+  };
+
+  // Drop the needle where the arm was let go, or send it home if that's off the grooves
+  const handleTonearmPointerUp = () => {
+    if (!isDraggingTonearm) return;
+    setIsDraggingTonearm(false);
+
+    const fraction = tonearmDragAngle === null ? -1 : tonearmGeometry.fractionAt(tonearmDragAngle);
+    // Nothing to play on an empty platter
+    if (fraction < 0 || fraction > 1 || tracks.length === 0 || !isDiscOut) {
+      setTonearmDragAngle(null);
+      if (isPlaying) handleStop();
+      return;
+    }
+
+    // Only the side facing up is under the needle
+    let index = trackFractions.findIndex(({ end }, i) => sideOf(i) === currentSide && fraction < end);
+    if (index === -1) {
+      index = currentTrackIndex;
+      while (!isLastOnSide(index)) index++;
+    }
+    const { start, end } = trackFractions[index];
+    const within = end > start ? Math.min(1, (fraction - start) / (end - start)) : 0;
+    const duration = index === currentTrackIndex ? engine.getDuration() : trackDurations[index] || 0;
+
+    engine.unlock().catch((error) => {
+      console.error('Failed to start audio:', error);
+    });
+    playNeedleDropSound();
+    setIsInitialPlay(false);
+    setAwaitingFlip(false);
+    setCurrentTrackIndex(index);
+    setNeedleDrop({ index, offset: within * duration });
+    setIsPlaying(true);
+  };
+
   // Progress bar interaction handlers
   const handleProgressBarClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     if (!config.scrubbing.enabled || !progressBarRef.current) return;
     
-    const audio = audioRef.current;
-    if (!audio || !audio.duration) return;
+    const duration = engine.getDuration();
+    if (!duration) return;
     
     const rect = progressBarRef.current.getBoundingClientRect();
     const clickX = e.clientX - rect.left;
     const percentage = Math.max(0, Math.min(1, clickX / rect.width));
-    const newTime = percentage * audio.duration;
     
-    audio.currentTime = newTime;
+    engine.seek(percentage * duration);
     setProgress(percentage * 100);
-  }, [config.scrubbing.enabled]);
+  }, [config.scrubbing.enabled, engine]);
 
   const handleProgressBarMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     if (!progressBarRef.current) return;
     
-    const audio = audioRef.current;
-    if (!audio || !audio.duration) return;
+    const duration = engine.getDuration();
+    if (!duration) return;
     
     const rect = progressBarRef.current.getBoundingClientRect();
     const mouseX = e.clientX - rect.left;
     const percentage = Math.max(0, Math.min(1, mouseX / rect.width));
-    setHoverTime(percentage * audio.duration);
-  }, []);
+    setHoverTime(percentage * duration);
+  }, [engine]);
 
   const handleProgressBarMouseLeave = useCallback(() => {
     setHoverTime(null);
   }, []);
 
-  const handleScrubberMouseDown = useCallback((e: React.MouseEvent) => {
+  const handleScrubberPointerDown = useCallback((e: React.PointerEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(true);
   }, []);
 
+  // Seconds of audio per turn of the record, as it was cut
+  const nativeRotationSeconds = 60 / rpmOf(nativeSpeed);
+
   useEffect(() => {
     if (!isDragging) return;
     
-    const audio = audioRef.current;
     const wasPlaying = isPlaying;
+    // With the needle in the groove, dragging is heard as a scratch
+    const audible = wasPlaying && config.scrubbing.scratchSoundsEnabled;
+    let lastTime = engine.getCurrentTime();
     
-    if (wasPlaying) {
-      audio?.pause();
+    if (audible) {
+      engine.beginScratch();
+    } else if (wasPlaying) {
+      engine.pause();
     }
     
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!progressBarRef.current || !audio || !audio.duration) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      const duration = engine.getDuration();
+      if (!progressBarRef.current || !duration) return;
       
       const rect = progressBarRef.current.getBoundingClientRect();
-      const mouseX = e.clientX - rect.left;
-      const percentage = Math.max(0, Math.min(1, mouseX / rect.width));
-      const newTime = percentage * audio.duration;
+      const pointerX = e.clientX - rect.left;
+      const percentage = Math.max(0, Math.min(1, pointerX / rect.width));
+      const newTime = percentage * duration;
       
-      audio.currentTime = newTime;
+      // The record turns under the hand
+      nudgePlatter(((newTime - lastTime) / nativeRotationSeconds) * 360);
+      lastTime = newTime;
+      
+      if (audible) {
+        engine.scratch(newTime);
+      } else {
+        engine.seek(newTime);
+      }
       setProgress(percentage * 100);
     };
     
-    const handleMouseUp = () => {
+    const handlePointerUp = () => {
       setIsDragging(false);
-      if (wasPlaying) {
-        audio?.play();
+      if (audible) {
+        engine.endScratch(true).catch((error) => {
+          console.error('Playback failed after scratching:', error);
+          setIsPlaying(false);
+        });
+      } else if (wasPlaying) {
+        engine.play().catch((error) => {
+          console.error('Playback failed after scrubbing:', error);
+          setIsPlaying(false);
+        });
       }
     };
     
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mouseup', handleMouseUp);
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
     
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+      engine.endScratch(false);
     };
-  }, [isDragging, isPlaying]);
+  }, [isDragging, isPlaying, engine, config.scrubbing.scratchSoundsEnabled, nativeRotationSeconds, nudgePlatter]);
 
   const handleSkipBackward = useCallback(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    audio.currentTime = Math.max(0, audio.currentTime - config.scrubbing.skipSeconds);
-  }, [config.scrubbing.skipSeconds]);
+    engine.seek(engine.getCurrentTime() - config.scrubbing.skipSeconds);
+  }, [config.scrubbing.skipSeconds, engine]);
 
   const handleSkipForward = useCallback(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    audio.currentTime = Math.min(audio.duration || 0, audio.currentTime + config.scrubbing.skipSeconds);
-  }, [config.scrubbing.skipSeconds]);
+    engine.seek(engine.getCurrentTime() + config.scrubbing.skipSeconds);
+  }, [config.scrubbing.skipSeconds, engine]);
 
   const formatTime = (seconds: number) => {
     if (!isFinite(seconds)) return '0:00';
@@ -675,6 +1087,21 @@ const VinylPlayer = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const formatBalance = (value: number) =>
+    value === 0 ? 'Centre' : `${value < 0 ? 'L' : 'R'} ${Math.round(Math.abs(value) * 100)}%`;
+
+  const formatDecibels = (value: number) => `${value > 0 ? '+' : ''}${value} dB`;
+
+  // e.g. "Rumours · Disc 1, Track 3 · 1977 · Rock"
+  const formatRelease = (track: Track) => {
+    const position = [track.discNumber && `Disc ${track.discNumber}`, track.trackNumber && `Track ${track.trackNumber}`]
+      .filter(Boolean)
+      .join(', ');
+    return [track.album, position, track.year, track.genre].filter(Boolean).join(' · ');
+  };
+
+  const formatPitch = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
   // Debug tonearm transition timing
   useEffect(() => {
     const transition = isStartingPlayback 
@@ -755,6 +1182,7 @@ const VinylPlayer = ({
 
           {/* Vinyl Record - positioned over the platter */}
           <div 
+            className={cn(isFlipping && "animate-flip-record", "motion-safe:transition-[transform,opacity] motion-safe:duration-700 motion-safe:ease-out")}
             style={{
               position: 'absolute',
               left: 'calc(var(--platter-left) * 1%)',
@@ -762,31 +1190,31 @@ const VinylPlayer = ({
               width: 'calc(var(--platter-size) * 1%)',
               aspectRatio: "1/1",
               zIndex: 2,
+              // Still in the sleeve below the deck
+              transform: isDiscOut ? undefined : 'translate(-40%, 110%) rotate(-90deg)',
+              opacity: isDiscOut ? 1 : 0,
+              pointerEvents: isDiscOut ? undefined : 'none',
             }}
           >
             <div
-              className={cn(
-                "relative w-full h-full rounded-full",
-                isPlaying && "animate-spin-vinyl"
-              )}
-              style={{
-                animationPlayState: isPlaying ? "running" : "paused",
-                animationDuration: `${config.vinylSpeed}s`,
-              }}
+              ref={discRef}
+              className="relative w-full h-full rounded-full"
             >
               {/* Base vinyl disc */}
-              <img
-                src={theme.assets.record}
-                alt="Vinyl Record"
-                style={{
-                  width: '100%',
-                  height: '100%',
-                  objectFit: 'contain',
-                }}
+              <VinylSurface style={surfaceStyle} artworkUrl={theme.assets.record} />
+              {/* Track bands and the gaps between them */}
+              <GrooveBands
+                bands={grooveBands}
+                grooves={config.grooves}
+                hoveredIndex={hoveredBand}
+                onHover={setHoveredBand}
+                onCue={cueTrack}
               />
               {/* Center label overlay */}
               <img
-                src={labelImageUrl}
+                src={currentTrack?.labelImageUrl || labelImageUrl}
+                srcSet={labelSrcSet(currentTrack?.labelImageUrl ? currentTrack.labelImageVariants : labelImageVariants)}
+                sizes={LABEL_SIZES}
                 alt="Record Label"
                 style={{
                   position: 'absolute',
@@ -814,6 +1242,15 @@ const VinylPlayer = ({
                 zIndex: 3,
               }}
             />
+            {/* Title of the band under the pointer (outside the disc so it doesn't spin) */}
+            {hoveredBand !== null && tracks[hoveredBand] && (
+              <div
+                className="absolute left-1/2 top-[6%] -translate-x-1/2 bg-popover text-popover-foreground px-2 py-1 rounded text-xs whitespace-nowrap pointer-events-none"
+                style={{ zIndex: 4 }}
+              >
+                {tracks[hoveredBand].title}
+              </div>
+            )}
           </div>
 
           {/* Glow effect when playing */}
@@ -837,6 +1274,7 @@ const VinylPlayer = ({
 
           {/* Tonearm - animated using the standalone tonearm image */}
           <div
+            ref={tonearmRef}
             style={{
               position: 'absolute',
               right: 'calc(var(--tonearm-right) * 1%)',
@@ -844,10 +1282,13 @@ const VinylPlayer = ({
               width: 'calc(var(--tonearm-width) * 1%)',
               transformOrigin: `calc(var(--tonearm-pivot-x) * 1%) calc(var(--tonearm-pivot-y) * 1%)`,
               transform: `rotate(${tonearmRotation}deg)`,
-              transition: isStartingPlayback 
+              transition: tonearmDragAngle !== null
+                ? 'none'
+                : isStartingPlayback 
                 ? `transform ${config.tonearmSpeed.playMs}ms ${config.tonearmSpeed.playEasing}` 
                 : `transform ${config.tonearmSpeed.stopMs}ms ${config.tonearmSpeed.stopEasing}`,
               zIndex: 3,
+              pointerEvents: 'none',
             }}
           >
             <img
@@ -862,6 +1303,24 @@ const VinylPlayer = ({
                 transformOrigin: `calc(var(--tonearm-pivot-x) * 1%) calc(var(--tonearm-pivot-y) * 1%)`,
               }}
             />
+            {/* Grip along the arm below the pivot, so the rest of the image box stays click-through */}
+            <div
+              aria-hidden
+              onPointerDown={handleTonearmPointerDown}
+              onPointerMove={handleTonearmPointerMove}
+              onPointerUp={handleTonearmPointerUp}
+              onPointerCancel={handleTonearmPointerUp}
+              style={{
+                position: 'absolute',
+                left: 'calc((var(--tonearm-pivot-x) - 5) * 1%)',
+                top: 'calc(var(--tonearm-pivot-y) * 1%)',
+                width: '10%',
+                height: `calc((100 - var(--tonearm-pivot-y)) * ${config.tonearm.lengthScale} * 1%)`,
+                cursor: isDraggingTonearm ? 'grabbing' : 'grab',
+                touchAction: 'none',
+                pointerEvents: 'auto',
+              }}
+            />
           </div>
 
           {/* Ambient light layered over the whole deck so it matches the room */}
@@ -902,7 +1361,23 @@ const VinylPlayer = ({
                   borderRadius: '50%',
                 }}
               />
-              
+
+              {/* Lead-in / lead-out grooves the stylus should track between */}
+              {[config.grooves.leadInPct, config.grooves.leadOutPct].map((radiusPct, i) => (
+                <div
+                  key={i}
+                  style={{
+                    position: 'absolute',
+                    left: `calc((var(--platter-left) + var(--platter-size) * ${(100 - radiusPct) / 200}) * 1%)`,
+                    top: `calc(var(--platter-top) * 1% + var(--platter-size) * ${(100 - radiusPct) / 200} * 1cqw)`,
+                    width: `calc(var(--platter-size) * ${radiusPct / 100} * 1%)`,
+                    aspectRatio: '1/1',
+                    border: '1px dashed rgb(250, 204, 21)',
+                    borderRadius: '50%',
+                  }}
+                />
+              ))}
+
               {/* Tonearm Pivot Crosshair */}
               <div
                 style={{
@@ -953,8 +1428,14 @@ const VinylPlayer = ({
                   <div className={adjustTarget === 'pivot' ? 'text-yellow-400 font-bold' : ''}>
                     Pivot: X:{config.tonearm.pivotXPct.toFixed(1)}% Y:{config.tonearm.pivotYPct.toFixed(1)}%
                   </div>
+                  <div className={adjustTarget === 'stylus' ? 'text-yellow-400 font-bold' : ''}>
+                    Stylus: Arm:{config.tonearm.armLengthPct.toFixed(1)}% Offset:{config.tonearm.stylusOffsetDeg.toFixed(1)}°
+                  </div>
+                  <div className={adjustTarget === 'grooves' ? 'text-yellow-400 font-bold' : ''}>
+                    Grooves: In:{config.grooves.leadInPct.toFixed(1)}% Out:{config.grooves.leadOutPct.toFixed(1)}%
+                  </div>
                   <div className={adjustTarget === 'angles' ? 'text-yellow-400 font-bold' : ''}>
-                    Angles: REST:{config.angles.REST.toFixed(1)}° START:{config.angles.START.toFixed(1)}° END:{config.angles.END.toFixed(1)}°
+                    Angles: REST:{config.angles.REST.toFixed(1)}° START:{tonearmGeometry.startAngle.toFixed(1)}° END:{tonearmGeometry.endAngle.toFixed(1)}°
                   </div>
                   <div className={adjustTarget === 'tonearm-speed-play' ? 'text-yellow-400 font-bold' : ''}>
                     Tonearm Play: {config.tonearmSpeed.playMs}ms ({config.tonearmSpeed.playEasing})
@@ -962,18 +1443,21 @@ const VinylPlayer = ({
                   <div className={adjustTarget === 'tonearm-speed-stop' ? 'text-yellow-400 font-bold' : ''}>
                     Tonearm Stop: {config.tonearmSpeed.stopMs}ms ({config.tonearmSpeed.stopEasing})
                   </div>
-                  <div className={adjustTarget === 'vinyl' ? 'text-yellow-400 font-bold' : ''}>
-                    Vinyl Speed: {config.vinylSpeed.toFixed(1)}s per rotation
+                  <div className={adjustTarget === 'inertia' ? 'text-yellow-400 font-bold' : ''}>
+                    Inertia: Up:{config.inertia.spinUpMs}ms Down:{config.inertia.spinDownMs}ms
                   </div>
                 </div>
 
                 <div className="mb-3 text-[10px] space-y-1 text-gray-300">
                   <div>Tab: Switch target ({adjustTarget})</div>
                   <div>Arrows: Move/Adjust (Shift=1.0/200ms, Alt=0.02/10ms)</div>
-                  <div>[ ]: Tonearm Length/Size/END angle</div>
+                  <div>[ ]: Tonearm Length/Size</div>
+                  <div>Stylus: Left/Right offset, Up/Down arm length</div>
+                  <div>Grooves: Left/Right lead-in, Up/Down lead-out</div>
+                  <div>Angles: Left/Right REST</div>
                   <div>+/-: Tonearm Width</div>
                   <div>Tonearm Speed: Left/Right (Shift=200ms, Alt=10ms, default=50ms)</div>
-                  <div>Vinyl: Left/Right arrows to adjust speed</div>
+                  <div>Inertia: Left/Right spin-up, Up/Down wind-down</div>
                   <div>ESC: Exit calibration</div>
                 </div>
 
@@ -1049,13 +1533,47 @@ const VinylPlayer = ({
         {/* End vinyl-player-container */}
       </div>
 
+      {sleeve && (
+        <RecordSleeve
+          title={sleeve.title}
+          artist={sleeve.artist}
+          imageUrl={sleeve.imageUrl}
+          backImageUrl={sleeve.backImageUrl}
+          tracks={sleeveTracks}
+          empty={isDiscOut}
+        />
+      )}
+
       {/* Track Info & Controls */}
         <div className="mt-8 rounded-xl bg-card p-6 shadow-lg">
-          <div className="mb-6 text-center">
-            <h2 className="mb-2 text-2xl font-bold text-card-foreground">
-              {currentTrack.title}
-            </h2>
-            <p className="text-muted-foreground">{currentTrack.artist}</p>
+          <div className="mb-6 flex items-center justify-center gap-4">
+            {currentTrack.coverUrl && (
+              <img
+                src={currentTrack.coverUrl}
+                alt={currentTrack.album ? `${currentTrack.album} cover` : 'Cover art'}
+                className="h-20 w-20 shrink-0 rounded-md object-cover shadow-md"
+              />
+            )}
+            <div className={currentTrack.coverUrl ? "min-w-0 text-left" : "text-center"}>
+              <h2 className="mb-2 text-2xl font-bold text-card-foreground">
+                {currentTrack.title}
+              </h2>
+              <p className="text-muted-foreground">{currentTrack.artist}</p>
+              {formatRelease(currentTrack) && (
+                <p className="mt-1 text-sm text-muted-foreground">{formatRelease(currentTrack)}</p>
+              )}
+              {currentTrack.composer && (
+                <p className="text-xs text-muted-foreground">Composer: {currentTrack.composer}</p>
+              )}
+              {currentTrack.credits && (
+                <p className="text-xs text-muted-foreground">{currentTrack.credits}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Level meters */}
+          <div className="mx-auto mb-6 max-w-sm">
+            <LevelMeter analyser={analyser} variant={theme.meter} active={isPlaying} themeId={theme.id} />
           </div>
 
           {/* Progress Bar */}
@@ -1064,28 +1582,33 @@ const VinylPlayer = ({
               <div 
                 ref={progressBarRef}
                 className={cn(
-                  "h-3 w-full overflow-visible rounded-full bg-muted relative group",
+                  "w-full overflow-visible relative group",
+                  currentTrack.waveformPeaks?.length ? "h-12" : "h-3 rounded-full bg-muted",
                   config.scrubbing.enabled && "cursor-pointer"
                 )}
                 onClick={handleProgressBarClick}
                 onMouseMove={handleProgressBarMouseMove}
                 onMouseLeave={handleProgressBarMouseLeave}
               >
-                <div
-                  className="h-full bg-primary rounded-full"
-                  style={{ width: `${progress}%` }}
-                />
+                {currentTrack.waveformPeaks?.length ? (
+                  <Waveform peaks={currentTrack.waveformPeaks} progress={progress} />
+                ) : (
+                  <div
+                    className="h-full bg-primary rounded-full"
+                    style={{ width: `${progress}%` }}
+                  />
+                )}
                 
                 {/* Scrubber Handle */}
                 {config.scrubbing.showHandle && (
                   <div
                     className={cn(
-                      "absolute top-1/2 -translate-y-1/2 w-5 h-5 bg-primary rounded-full shadow-lg transition-transform",
+                      "absolute top-1/2 -translate-y-1/2 w-5 h-5 bg-primary rounded-full shadow-lg transition-transform touch-none",
                       "group-hover:scale-125",
                       isDragging && "scale-150 shadow-xl"
                     )}
                     style={{ left: `${progress}%`, transform: `translateX(-50%) translateY(-50%)` }}
-                    onMouseDown={handleScrubberMouseDown}
+                    onPointerDown={handleScrubberPointerDown}
                   />
                 )}
                 
@@ -1093,7 +1616,7 @@ const VinylPlayer = ({
                 {hoverTime !== null && !isDragging && (
                   <div
                     className="absolute -top-8 bg-popover text-popover-foreground px-2 py-1 rounded text-xs pointer-events-none"
-                    style={{ left: `${(hoverTime / (audioRef.current?.duration || 1)) * 100}%`, transform: 'translateX(-50%)' }}
+                    style={{ left: `${(hoverTime / (engine.getDuration() || 1)) * 100}%`, transform: 'translateX(-50%)' }}
                   >
                     {formatTime(hoverTime)}
                   </div>
@@ -1102,8 +1625,8 @@ const VinylPlayer = ({
               
               {/* Time Display */}
               <div className="flex justify-between text-xs text-muted-foreground mt-2">
-                <span>{formatTime((audioRef.current?.currentTime || 0))}</span>
-                <span>{formatTime((audioRef.current?.duration || 0))}</span>
+                <span>{formatTime(engine.getCurrentTime())}</span>
+                <span>{formatTime(engine.getDuration())}</span>
               </div>
             </div>
           </div>
@@ -1170,9 +1693,105 @@ const VinylPlayer = ({
               <FastForward className="h-4 w-4" />
             </Button>
           </div>
+
+          {/* Speed and pitch */}
+          <div className="mt-6 flex flex-wrap items-center justify-center gap-6">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={String(selectedSpeed)}
+              onValueChange={(value) => {
+                // Clicking the active speed would otherwise deselect it
+                if (value) setSelectedSpeed(Number(value) as RecordSpeed);
+              }}
+              aria-label="Record speed"
+            >
+              {RECORD_SPEEDS.map((speed) => (
+                <ToggleGroupItem key={speed.value} value={String(speed.value)} aria-label={`${speed.label} RPM`}>
+                  {speed.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex w-48 flex-col gap-1.5" onDoubleClick={() => setPitch(0)}>
+              <div className="flex justify-between text-[10px] font-medium uppercase tracking-wider text-muted-foreground">
+                <span>Pitch</span>
+                <span className="tabular-nums">{formatPitch(pitch)}</span>
+              </div>
+              <Slider
+                min={-PITCH_RANGE * 100}
+                max={PITCH_RANGE * 100}
+                step={0.1}
+                value={[pitch * 100]}
+                onValueChange={([value]) => setPitch(value / 100)}
+                aria-label="Pitch"
+              />
+            </div>
+          </div>
+
+          {/* Levels */}
+          <div className="mt-6 flex items-start justify-center gap-6">
+            <Knob
+              label="Volume"
+              value={levels.volume}
+              min={0}
+              max={1}
+              step={0.01}
+              defaultValue={DEFAULT_TONE_LEVELS.volume}
+              onChange={(value) => setLevel('volume', value)}
+              formatValue={(value) => `${Math.round(value * 100)}%`}
+            />
+            <Knob
+              label="Balance"
+              value={levels.balance}
+              min={-1}
+              max={1}
+              step={0.05}
+              defaultValue={DEFAULT_TONE_LEVELS.balance}
+              onChange={(value) => setLevel('balance', value)}
+              formatValue={formatBalance}
+            />
+            <Knob
+              label="Bass"
+              value={levels.bass}
+              min={-12}
+              max={12}
+              step={0.5}
+              defaultValue={DEFAULT_TONE_LEVELS.bass}
+              onChange={(value) => setLevel('bass', value)}
+              formatValue={formatDecibels}
+            />
+            <Knob
+              label="Treble"
+              value={levels.treble}
+              min={-12}
+              max={12}
+              step={0.5}
+              defaultValue={DEFAULT_TONE_LEVELS.treble}
+              onChange={(value) => setLevel('treble', value)}
+              formatValue={formatDecibels}
+            />
+          </div>
+          <div className="mt-2 flex justify-center">
+            <SurfaceNoiseControls
+              enabled={surfaceNoise.enabled}
+              onEnabledChange={surfaceNoise.setEnabled}
+              profile={surfaceNoise.profile}
+              onLevelChange={surfaceNoise.setLevel}
+              onReset={surfaceNoise.isCustom ? surfaceNoise.resetLevels : undefined}
+            />
+          </div>
           
           {/* Runout indicator */}
-          {isLastTrackFinished && (
+          {awaitingFlip ? (
+            <div className="mt-4 flex flex-col items-center gap-2 text-sm text-muted-foreground">
+              <span className={cn(isLastTrackFinished && "animate-pulse")}>End of Side {currentSide}</span>
+              <Button variant="secondary" size="sm" onClick={handleFlip}>
+                <FlipHorizontal className="mr-2 h-4 w-4" />
+                Flip to Side {nextSide}
+              </Button>
+            </div>
+          ) : isLastTrackFinished && (
             <div className="mt-4 text-center text-sm text-muted-foreground animate-pulse">
               End of record - Click play to restart
             </div>
@@ -1181,9 +1800,17 @@ const VinylPlayer = ({
           {/* Track List */}
           <div className="mt-6 space-y-2">
             {tracks.map((track, index) => (
+              <div key={track.id}>
+              {sides.length > 1 && (index === 0 || sideOf(index - 1) !== sideOf(index)) && (
+                <div className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                  Side {sideOf(index)}
+                </div>
+              )}
               <button
-                key={track.id}
-                onClick={() => setCurrentTrackIndex(index)}
+                onClick={() => {
+                  setAwaitingFlip(false);
+                  setCurrentTrackIndex(index);
+                }}
                 className={cn(
                   "w-full rounded-lg px-4 py-3 text-left transition-colors",
                   index === currentTrackIndex
@@ -1192,10 +1819,19 @@ const VinylPlayer = ({
                 )}
               >
                 <div className="flex items-center gap-3">
-                  <span className="text-sm font-medium">{index + 1}</span>
+                  <span className="text-sm font-medium">
+                    {sides.length > 1
+                      ? `${sideOf(index)}${index - sideFirstIndex(sideOf(index)) + 1}`
+                      : index + 1}
+                  </span>
                   <div className="flex-1">
                     <div className="text-sm font-medium">{track.title}</div>
                     <div className="text-xs opacity-75">{track.artist}</div>
+                    {track.mimeType && !canPlayAudioType(track.mimeType) && (
+                      <div className="text-xs text-destructive">
+                        {audioFormatLabel(track.mimeType)} isn't supported by this browser
+                      </div>
+                    )}
                   </div>
                   {index === currentTrackIndex && isPlaying && (
                     <div className="flex gap-0.5">
@@ -1210,15 +1846,11 @@ const VinylPlayer = ({
                   )}
                 </div>
               </button>
+              </div>
             ))}
           </div>
         </div>
 
-      {/* Hidden Audio Element */}
-      <audio ref={audioRef} preload="metadata">
-        <source src={currentTrack?.audioUrl || ''} type="audio/mpeg" />
-        Your browser does not support the audio element.
-      </audio>
       {/* End vinyl-player-root */}
     </div>
   );
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import type { VinylStyle } from '@/config/vinylStyles';
+import { paintVinyl } from '@/utils/vinylTexture';
+
+interface VinylSurfaceProps {
+  style: VinylStyle;
+  /** The theme's own record image, shown for black vinyl. */
+  artworkUrl: string;
+  /** Canvas resolution in pixels; previews can get away with less. */
+  size?: number;
+}
+
+/** The vinyl itself, without the centre label. Fills its container. */
+const VinylSurface = ({ style, artworkUrl, size = 1024 }: VinylSurfaceProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { kind, colour, accent, imageUrl } = style;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (kind === 'black' || !canvas) return;
+
+    const current = { kind, colour, accent, imageUrl };
+    if (kind !== 'picture' || !imageUrl) {
+      paintVinyl(canvas, current);
+      return;
+    }
+
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled) paintVinyl(canvas, current, image);
+    };
+    image.onerror = () => {
+      if (!cancelled) paintVinyl(canvas, current);
+    };
+    image.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, colour, accent, imageUrl, size]);
+
+  if (kind === 'black') {
+    return (
+      <img
+        src={artworkUrl}
+        alt="Vinyl Record"
+        style={{
+          width: '100%',
+          height: '100%',
+          objectFit: 'contain',
+        }}
+      />
+    );
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={size}
+      role="img"
+      aria-label="Vinyl Record"
+      style={{ display: 'block', width: '100%', height: '100%' }}
+    />
+  );
+};
+
+export default VinylSurface;
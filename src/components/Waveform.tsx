@@ -0,0 +1,45 @@
+import { useId, useMemo } from 'react';
+
+interface WaveformProps {
+  peaks: number[];
+  /** Played portion, 0..100. */
+  progress: number;
+}
+
+// Quietest bars still show as a sliver so the scrubber never has gaps
+const MIN_BAR_HEIGHT = 4;
+
+/** Track amplitude envelope: played bars in the primary colour, the rest muted. Fills its container. */
+const Waveform = ({ peaks, progress }: WaveformProps) => {
+  const clipId = useId();
+  // Built once per track, so a progress tick only moves the clip rect
+  const bars = useMemo(
+    () =>
+      peaks.map((peak, index) => {
+        const height = Math.max(MIN_BAR_HEIGHT, peak * 100);
+        return <rect key={index} x={index + 0.15} y={(100 - height) / 2} width={0.7} height={height} rx={0.3} />;
+      }),
+    [peaks]
+  );
+
+  return (
+    <svg
+      viewBox={`0 0 ${peaks.length} 100`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 h-full w-full"
+      aria-hidden="true"
+    >
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={0} y={0} width={(progress / 100) * peaks.length} height={100} />
+        </clipPath>
+      </defs>
+      <g className="fill-muted">{bars}</g>
+      <g className="fill-primary" clipPath={`url(#${clipId})`}>
+        {bars}
+      </g>
+    </svg>
+  );
+};
+
+export default Waveform;
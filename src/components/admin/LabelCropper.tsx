@@ -0,0 +1,148 @@
+import { useEffect, useRef } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import VinylSurface from '@/components/VinylSurface';
+import { DEFAULT_VINYL_STYLE, resolveVinylStyle } from '@/config/vinylStyles';
+import { useActivePlayerTheme } from '@/hooks/usePlayerTheme';
+import { useVinylStyle } from '@/hooks/useVinylStyle';
+import {
+  DEFAULT_LABEL_CROP,
+  MAX_LABEL_ZOOM,
+  clampLabelCrop,
+  drawLabelCrop,
+  type LabelCrop,
+  type LabelSource,
+} from '@/utils/labelImageProcessing';
+
+interface LabelCropperProps {
+  source: LabelSource;
+  crop: LabelCrop;
+  onCropChange: (crop: LabelCrop) => void;
+}
+
+// Drawn at twice the displayed size so the preview stays sharp
+const EDITOR_SIZE = 512;
+const PREVIEW_SIZE = 256;
+const KEYBOARD_STEP = 0.02;
+
+/** Drag to position the circle, then zoom and rotate; shows the result on the record. */
+const LabelCropper = ({ source, crop, onCropChange }: LabelCropperProps) => {
+  const { theme } = useActivePlayerTheme();
+  const { data: vinylStyle } = useVinylStyle();
+  const editorRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; crop: LabelCrop } | null>(null);
+
+  useEffect(() => {
+    if (editorRef.current) drawLabelCrop(editorRef.current, source, crop, EDITOR_SIZE);
+    if (previewRef.current) drawLabelCrop(previewRef.current, source, crop, PREVIEW_SIZE);
+  }, [source, crop]);
+
+  const change = (changes: Partial<LabelCrop>) => onCropChange(clampLabelCrop({ ...crop, ...changes }, source));
+
+  // Screen movement turned into the image's own frame, so dragging follows the pointer when rotated
+  const pan = (from: LabelCrop, dx: number, dy: number) => {
+    const angle = (-from.rotation * Math.PI) / 180;
+    onCropChange(
+      clampLabelCrop(
+        {
+          ...from,
+          offsetX: from.offsetX - (dx * Math.cos(angle) - dy * Math.sin(angle)),
+          offsetY: from.offsetY - (dx * Math.sin(angle) + dy * Math.cos(angle)),
+        },
+        source
+      )
+    );
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const size = e.currentTarget.getBoundingClientRect().width || 1;
+    pan(drag.crop, (e.clientX - drag.x) / size, (e.clientY - drag.y) / size);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    pan(crop, ...move);
+  };
+
+  return (
+    <div className="grid gap-6 sm:grid-cols-2">
+      <div className="space-y-4">
+        <canvas
+          ref={editorRef}
+          tabIndex={0}
+          role="img"
+          aria-label="Label crop. Drag or use the arrow keys to move the image."
+          className="aspect-square w-full max-w-[256px] cursor-grab touch-none rounded-full bg-muted active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+          onKeyDown={handleKeyDown}
+        />
+        <div className="space-y-2">
+          <Label>Zoom</Label>
+          <Slider
+            min={1}
+            max={MAX_LABEL_ZOOM}
+            step={0.01}
+            value={[crop.zoom]}
+            onValueChange={([zoom]) => change({ zoom })}
+            aria-label="Zoom"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Rotate</Label>
+          <Slider
+            min={-180}
+            max={180}
+            step={1}
+            value={[crop.rotation]}
+            onValueChange={([rotation]) => change({ rotation })}
+            aria-label="Rotate"
+          />
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onCropChange(DEFAULT_LABEL_CROP)}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      {/* How it will sit on the record, at the player's 52% */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium">On the record</p>
+        <div className="relative aspect-square w-full max-w-[256px]">
+          <VinylSurface
+            style={resolveVinylStyle(vinylStyle ?? theme.vinyl ?? DEFAULT_VINYL_STYLE)}
+            artworkUrl={theme.assets.record}
+            size={512}
+          />
+          <canvas
+            ref={previewRef}
+            aria-hidden
+            className="absolute left-1/2 top-1/2 h-[52%] w-[52%] -translate-x-1/2 -translate-y-1/2"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelCropper;
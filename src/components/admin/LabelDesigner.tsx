@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from 'react';
+import { ImageIcon, Loader2, Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import VinylSurface from '@/components/VinylSurface';
+import { DEFAULT_VINYL_STYLE, resolveVinylStyle } from '@/config/vinylStyles';
+import { useActivePlayerTheme } from '@/hooks/usePlayerTheme';
+import { useVinylStyle } from '@/hooks/useVinylStyle';
+import { useUploadLabelImage } from '@/hooks/useLabelImages';
+import { useRecords } from '@/hooks/useRecords';
+import { toast } from '@/hooks/use-toast';
+import { RECORD_SIDES } from '@/hooks/useTracks';
+import {
+  DEFAULT_LABEL_DESIGN,
+  LABEL_FONTS,
+  LABEL_TEMPLATE_URL,
+  drawLabel,
+  loadImage,
+  type LabelDesign,
+  type LabelFontId,
+} from '@/utils/labelDesign';
+import { DEFAULT_LABEL_CROP, renderLabelVariants } from '@/utils/labelImageProcessing';
+
+// Select value for a label without a side
+const NO_SIDE = 'none';
+
+/** Composes a centre label on the blank template and saves it as a new label image. */
+const LabelDesigner = () => {
+  const { theme } = useActivePlayerTheme();
+  const { data: vinylStyle } = useVinylStyle();
+  const uploadLabelImage = useUploadLabelImage();
+  const { data: records } = useRecords();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [design, setDesign] = useState<LabelDesign>(DEFAULT_LABEL_DESIGN);
+  const [template, setTemplate] = useState<HTMLImageElement | null>(null);
+  const [logo, setLogo] = useState<HTMLImageElement | null>(null);
+  const [logoName, setLogoName] = useState<string | null>(null);
+  // Record the title and artist were filled in from, if any
+  const [recordId, setRecordId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(LABEL_TEMPLATE_URL)
+      .then((image) => !cancelled && setTemplate(image))
+      .catch((error) => console.error('Label template failed to load:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (canvasRef.current) drawLabel(canvasRef.current, design, template, logo);
+  }, [design, template, logo]);
+
+  const update = (changes: Partial<LabelDesign>) => setDesign((current) => ({ ...current, ...changes }));
+
+  const handleRecordChange = (id: string) => {
+    const record = records?.find((candidate) => candidate.id === id);
+    if (!record) return;
+    setRecordId(id);
+    update({ title: record.title, artist: record.artist });
+  };
+
+  const reset = () => {
+    setDesign(DEFAULT_LABEL_DESIGN);
+    setLogo(null);
+    setLogoName(null);
+    setRecordId('');
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    // Only the finished label is uploaded, so the logo can stay a local object URL
+    const url = URL.createObjectURL(file);
+    try {
+      setLogo(await loadImage(url));
+      setLogoName(file.name);
+    } catch (error) {
+      console.error('Logo failed to load:', error);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canvasRef.current) return;
+    const name = [design.title || 'Custom label', design.side && `Side ${design.side}`].filter(Boolean).join(' - ');
+    setSaving(true);
+    try {
+      // Same sizes and spindle hole as an uploaded label. A failed render never reaches the mutation
+      const variants = await renderLabelVariants(canvasRef.current, DEFAULT_LABEL_CROP).catch((error: Error) => {
+        toast({
+          title: 'Error saving label',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return null;
+      });
+      if (!variants) return;
+      await uploadLabelImage.mutateAsync({ name, variants });
+      reset();
+    } catch (error) {
+      // Error handled by mutation
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Label Designer</CardTitle>
+        <CardDescription>
+          Pick a record to fill in its title and artist, then set the side, text and logo. Saving adds
+          the label to the label images.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-8 md:grid-cols-2">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="label-record">Record</Label>
+              <Select value={recordId} onValueChange={handleRecordChange}>
+                <SelectTrigger id="label-record">
+                  <SelectValue placeholder="Fill in from a record" />
+                </SelectTrigger>
+                <SelectContent>
+                  {records?.map((record) => (
+                    <SelectItem key={record.id} value={record.id}>{record.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="label-title">Title</Label>
+              <Input id="label-title" value={design.title} onChange={(e) => update({ title: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="label-artist">Artist</Label>
+              <Input id="label-artist" value={design.artist} onChange={(e) => update({ artist: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="label-side">Side</Label>
+                <Select
+                  value={design.side || NO_SIDE}
+                  onValueChange={(value) => update({ side: value === NO_SIDE ? '' : value })}
+                >
+                  <SelectTrigger id="label-side">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SIDE}>None</SelectItem>
+                    {RECORD_SIDES.map((side) => (
+                      <SelectItem key={side} value={side}>Side {side}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="label-catalogue">Catalogue number</Label>
+                <Input
+                  id="label-catalogue"
+                  value={design.catalogueNumber}
+                  onChange={(e) => update({ catalogueNumber: e.target.value })}
+                  placeholder="e.g. LP-001"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-[1fr_auto] gap-4">
+              <div>
+                <Label htmlFor="label-curved">Text around the rim</Label>
+                <Input
+                  id="label-curved"
+                  value={design.curvedText}
+                  onChange={(e) => update({ curvedText: e.target.value })}
+                  placeholder="e.g. Stereo · Made in England"
+                />
+              </div>
+              <div>
+                <Label htmlFor="label-curved-position">Runs</Label>
+                <Select
+                  value={design.curvedTextPosition}
+                  onValueChange={(value) => update({ curvedTextPosition: value as LabelDesign['curvedTextPosition'] })}
+                >
+                  <SelectTrigger id="label-curved-position" className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="top">Over the top</SelectItem>
+                    <SelectItem value="bottom">Under</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              <div>
+                <Label htmlFor="label-font">Lettering</Label>
+                <Select value={design.font} onValueChange={(value) => update({ font: value as LabelFontId })}>
+                  <SelectTrigger id="label-font" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_FONTS.map((font) => (
+                      <SelectItem key={font.id} value={font.id}>{font.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="label-colour">Text colour</Label>
+                <Input
+                  id="label-colour"
+                  type="color"
+                  className="h-10 w-20 p-1"
+                  value={design.textColour}
+                  onChange={(e) => update({ textColour: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Logo</Label>
+              <div className="mt-2 flex items-center gap-2">
+                <Button type="button" variant="secondary" onClick={() => logoInputRef.current?.click()}>
+                  <ImageIcon className="mr-2 h-4 w-4" />
+                  {logo ? 'Change Logo' : 'Add Logo'}
+                </Button>
+                {logo && (
+                  <>
+                    <span className="max-w-[12rem] truncate text-sm text-muted-foreground">{logoName}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setLogo(null);
+                        setLogoName(null);
+                      }}
+                      aria-label="Remove logo"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save Label
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={saving}>
+                Reset
+              </Button>
+            </div>
+          </div>
+
+          {/* Live preview on the current record, turning at 33⅓ */}
+          <div className="mx-auto w-full max-w-sm">
+            <div className="relative aspect-square motion-safe:animate-spin motion-safe:[animation-duration:1.8s]">
+              <VinylSurface
+                style={resolveVinylStyle(vinylStyle ?? theme.vinyl ?? DEFAULT_VINYL_STYLE)}
+                artworkUrl={theme.assets.record}
+                size={512}
+              />
+              <canvas
+                ref={canvasRef}
+                className="absolute left-1/2 top-1/2 h-[52%] w-[52%] -translate-x-1/2 -translate-y-1/2 rounded-full"
+                aria-label="Label preview"
+              />
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LabelDesigner;
@@ -0,0 +1,399 @@
+import { useEffect, useRef, useState } from 'react';
+import { Disc3, Image as ImageIcon, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { VINYL_STYLE_OPTIONS, resolveVinylStyle, type VinylStyleKind } from '@/config/vinylStyles';
+import { useLabelImages } from '@/hooks/useLabelImages';
+import {
+  useCreateRecord,
+  useDeleteRecord,
+  useRecords,
+  useUpdateRecord,
+  useUploadSleeveArt,
+  type RecordChanges,
+  type VinylRecord,
+} from '@/hooks/useRecords';
+import type { Track } from '@/hooks/useTracks';
+import { useUploadPictureDiscImage } from '@/hooks/useVinylStyle';
+
+// Select values for "fall back to the site-wide setting"
+const SITE_LABEL = 'site';
+const SITE_STYLE = 'site';
+
+const EMPTY_RECORD: RecordChanges = {
+  title: '',
+  artist: '',
+  sleeveUrl: null,
+  backSleeveUrl: null,
+  labelImageId: null,
+  vinylStyle: null,
+};
+
+interface SleeveFieldProps {
+  label: string;
+  url: string | null;
+  onChange: (url: string | null) => void;
+}
+
+/** Upload, replace or remove one side of the sleeve. */
+const SleeveField = ({ label, url, onChange }: SleeveFieldProps) => {
+  const uploadSleeve = useUploadSleeveArt();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    uploadSleeve.mutate(file, { onSuccess: onChange });
+  };
+
+  return (
+    <div>
+      <Label>{label}</Label>
+      <div className="mt-2 space-y-2">
+        <div className="flex h-20 w-20 items-center justify-center overflow-hidden rounded bg-muted">
+          {url ? (
+            <img src={url} alt={label} className="h-full w-full object-cover" />
+          ) : (
+            <Disc3 className="h-8 w-8 text-muted-foreground" />
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          className="hidden"
+          onChange={handleChange}
+        />
+        <div className="flex flex-wrap gap-1">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadSleeve.isPending}
+          >
+            {uploadSleeve.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ImageIcon className="mr-2 h-4 w-4" />
+            )}
+            {url ? 'Replace' : 'Upload'}
+          </Button>
+          {url && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+              <X className="mr-2 h-4 w-4" />
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface RecordsManagerProps {
+  tracks: Track[];
+}
+
+/** Admin CRUD for the records in the collection. Tracks are assigned from the track table. */
+const RecordsManager = ({ tracks }: RecordsManagerProps) => {
+  const { data: records, isLoading } = useRecords();
+  const { data: labelImages } = useLabelImages();
+  const createRecord = useCreateRecord();
+  const updateRecord = useUpdateRecord();
+  const deleteRecord = useDeleteRecord();
+  const uploadPicture = useUploadPictureDiscImage();
+  const pictureInputRef = useRef<HTMLInputElement>(null);
+
+  // The record being edited; null while creating a new one
+  const [editing, setEditing] = useState<VinylRecord | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<RecordChanges>(EMPTY_RECORD);
+  const [deleteTarget, setDeleteTarget] = useState<VinylRecord | null>(null);
+
+  useEffect(() => {
+    if (!dialogOpen) return;
+    setDraft(
+      editing
+        ? {
+            title: editing.title,
+            artist: editing.artist,
+            sleeveUrl: editing.sleeveUrl,
+            backSleeveUrl: editing.backSleeveUrl,
+            labelImageId: editing.labelImageId,
+            vinylStyle: editing.vinylStyle,
+          }
+        : EMPTY_RECORD
+    );
+  }, [dialogOpen, editing]);
+
+  const trackCount = (record: VinylRecord) => tracks.filter((track) => track.recordId === record.id).length;
+  const style = draft.vinylStyle;
+  const usesColour = style?.kind === 'colour' || style?.kind === 'marbled' || style?.kind === 'splatter';
+  const usesAccent = style?.kind === 'marbled' || style?.kind === 'splatter';
+  const canSave = draft.title.trim() !== '' && (style?.kind !== 'picture' || !!style.imageUrl);
+  const isSaving = createRecord.isPending || updateRecord.isPending;
+
+  const openDialog = (record: VinylRecord | null) => {
+    setEditing(record);
+    setDialogOpen(true);
+  };
+
+  const handleImage = (upload: typeof uploadPicture, apply: (url: string) => void) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      upload.mutate(file, { onSuccess: apply });
+    };
+
+  const handleSave = async () => {
+    const changes = { ...draft, title: draft.title.trim(), artist: draft.artist.trim() };
+    if (editing) {
+      await updateRecord.mutateAsync({ id: editing.id, ...changes });
+    } else {
+      await createRecord.mutateAsync(changes);
+    }
+    setDialogOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteRecord.mutateAsync(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Records</CardTitle>
+          <CardDescription>
+            Each record has its own tracks, sleeve, label and style. Visitors pick one from the crate.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Record
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading records...</p>
+        ) : !records || records.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No records yet. Create one and assign tracks to it.</p>
+        ) : (
+          <ul className="grid gap-4 sm:grid-cols-2">
+            {records.map((record) => (
+              <li key={record.id} className="flex items-center gap-3 rounded-lg border p-3">
+                <div className="flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded bg-muted">
+                  {record.sleeveUrl ? (
+                    <img src={record.sleeveUrl} alt="" className="h-full w-full object-cover" />
+                  ) : (
+                    <Disc3 className="h-8 w-8 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{record.title}</p>
+                  {record.artist && <p className="truncate text-sm text-muted-foreground">{record.artist}</p>}
+                  <p className="text-xs text-muted-foreground">{trackCount(record)} track(s)</p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(record)} aria-label={`Edit ${record.title}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setDeleteTarget(record)} aria-label={`Delete ${record.title}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Record' : 'New Record'}</DialogTitle>
+            <DialogDescription>Leave the label and style on the site defaults to follow those settings.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="record-title">Title</Label>
+              <Input
+                id="record-title"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="record-artist">Artist</Label>
+              <Input
+                id="record-artist"
+                value={draft.artist}
+                onChange={(e) => setDraft({ ...draft, artist: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <SleeveField
+                label="Front cover"
+                url={draft.sleeveUrl}
+                onChange={(sleeveUrl) => setDraft((current) => ({ ...current, sleeveUrl }))}
+              />
+              <SleeveField
+                label="Back cover"
+                url={draft.backSleeveUrl}
+                onChange={(backSleeveUrl) => setDraft((current) => ({ ...current, backSleeveUrl }))}
+              />
+            </div>
+
+            <div>
+              <Label>Label</Label>
+              <Select
+                value={draft.labelImageId ?? SITE_LABEL}
+                onValueChange={(value) => setDraft({ ...draft, labelImageId: value === SITE_LABEL ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SITE_LABEL}>Site label</SelectItem>
+                  {labelImages?.map((label) => (
+                    <SelectItem key={label.id} value={label.id}>{label.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Record style</Label>
+              <Select
+                value={style?.kind ?? SITE_STYLE}
+                onValueChange={(value) =>
+                  setDraft({
+                    ...draft,
+                    vinylStyle:
+                      value === SITE_STYLE ? null : resolveVinylStyle({ kind: value as VinylStyleKind }),
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SITE_STYLE}>Site style</SelectItem>
+                  {VINYL_STYLE_OPTIONS.map((option) => (
+                    <SelectItem key={option.kind} value={option.kind}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {style && usesColour && (
+              <div className="flex flex-wrap gap-4">
+                <div>
+                  <Label htmlFor="record-colour">Vinyl colour</Label>
+                  <Input
+                    id="record-colour"
+                    type="color"
+                    className="h-10 w-20 p-1"
+                    value={style.colour}
+                    onChange={(e) => setDraft({ ...draft, vinylStyle: { ...style, colour: e.target.value } })}
+                  />
+                </div>
+                {usesAccent && (
+                  <div>
+                    <Label htmlFor="record-accent">{style.kind === 'marbled' ? 'Swirl colour' : 'Splatter colour'}</Label>
+                    <Input
+                      id="record-accent"
+                      type="color"
+                      className="h-10 w-20 p-1"
+                      value={style.accent}
+                      onChange={(e) => setDraft({ ...draft, vinylStyle: { ...style, accent: e.target.value } })}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {style?.kind === 'picture' && (
+              <div>
+                <input
+                  ref={pictureInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={handleImage(uploadPicture, (imageUrl) =>
+                    setDraft((current) => ({ ...current, vinylStyle: { kind: 'picture', imageUrl } }))
+                  )}
+                />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => pictureInputRef.current?.click()}
+                  disabled={uploadPicture.isPending}
+                >
+                  {uploadPicture.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ImageIcon className="mr-2 h-4 w-4" />
+                  )}
+                  {style.imageUrl ? 'Replace Artwork' : 'Upload Artwork'}
+                </Button>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Record?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.title}" will be removed from the crate. Its tracks are kept and become unassigned.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default RecordsManager;
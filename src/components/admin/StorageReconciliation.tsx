@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { HardDrive, Link2, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  isRecentObject,
+  useDeleteOrphans,
+  useRelinkStorageReference,
+  useStorageReport,
+  type StorageReference,
+  type StorageReferenceKind,
+} from '@/hooks/useStorageReconciliation';
+import { formatBytes, type StorageObject } from '@/utils/storageObjects';
+
+const REFERENCE_LABELS: Record<StorageReferenceKind, string> = {
+  'track-audio': 'Track audio',
+  'track-cover': 'Track cover',
+  'label-image': 'Label image',
+  'label-variant': 'Label size',
+  'record-sleeve': 'Record sleeve',
+  'record-back-sleeve': 'Back of sleeve',
+  'picture-disc': 'Picture disc',
+};
+
+const objectKey = (object: StorageObject) => `${object.bucket}/${object.path}`;
+const referenceKey = (reference: StorageReference) => `${reference.kind}/${reference.id}`;
+
+/** Finds files nothing uses and rows whose file has gone, and tidies up either side. */
+const StorageReconciliation = () => {
+  const [enabled, setEnabled] = useState(false);
+  const { data: report, isFetching, error, refetch } = useStorageReport(enabled);
+  const deleteOrphans = useDeleteOrphans();
+  const relink = useRelinkStorageReference();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({});
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const deletableOrphans = report?.orphans.filter((object) => !isRecentObject(object)) ?? [];
+  const selectedOrphans = deletableOrphans.filter((object) => selected.has(objectKey(object)));
+  const allSelected = deletableOrphans.length > 0 && selectedOrphans.length === deletableOrphans.length;
+
+  const toggle = (object: StorageObject, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(objectKey(object));
+      else next.delete(objectKey(object));
+      return next;
+    });
+  };
+
+  const handleCheck = () => {
+    setSelected(new Set());
+    if (enabled) refetch();
+    else setEnabled(true);
+  };
+
+  const handleDelete = async () => {
+    await deleteOrphans.mutateAsync(selectedOrphans);
+    setSelected(new Set());
+    setConfirmOpen(false);
+  };
+
+  const handleRelink = (reference: StorageReference) => {
+    const target = report?.orphans.find((object) => objectKey(object) === relinkTargets[referenceKey(reference)]);
+    if (target) relink.mutate({ reference, object: target });
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Storage</CardTitle>
+          <CardDescription>
+            Compares the files in storage with the tracks, covers, sleeves and label images that use them.
+          </CardDescription>
+        </div>
+        <Button variant="secondary" onClick={handleCheck} disabled={isFetching}>
+          {isFetching ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : enabled ? (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          ) : (
+            <HardDrive className="mr-2 h-4 w-4" />
+          )}
+          {enabled ? 'Check Again' : 'Check Storage'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!enabled ? (
+          <p className="text-sm text-muted-foreground">
+            Lists every file in both buckets, so it may take a moment on large libraries.
+          </p>
+        ) : error ? (
+          <p className="text-sm text-destructive">Could not read storage: {(error as Error).message}</p>
+        ) : !report ? (
+          <p className="text-sm text-muted-foreground">Checking storage...</p>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              {report.objects.length} file(s), {formatBytes(report.totalBytes)} in total.{' '}
+              {report.orphans.length} unused ({formatBytes(report.orphanBytes)}), {report.missing.length} missing.
+            </p>
+
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-sm font-medium">Unused files</h3>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={selectedOrphans.length === 0 || deleteOrphans.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete Selected ({selectedOrphans.length})
+                </Button>
+              </div>
+              {report.orphans.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every file is in use.</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={(checked) =>
+                              setSelected(checked ? new Set(deletableOrphans.map(objectKey)) : new Set())
+                            }
+                            aria-label="Select all unused files"
+                          />
+                        </TableHead>
+                        <TableHead>File</TableHead>
+                        <TableHead>Size</TableHead>
+                        <TableHead>Uploaded</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.orphans.map((object) => {
+                        const recent = isRecentObject(object);
+                        return (
+                          <TableRow key={objectKey(object)}>
+                            <TableCell>
+                              <Checkbox
+                                checked={selected.has(objectKey(object))}
+                                onCheckedChange={(checked) => toggle(object, checked === true)}
+                                disabled={recent}
+                                aria-label={`Select ${object.path}`}
+                              />
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate font-mono text-xs">
+                              {objectKey(object)}
+                            </TableCell>
+                            <TableCell className="text-sm">{formatBytes(object.size)}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {object.createdAt ? new Date(object.createdAt).toLocaleString() : '—'}
+                              {recent && ' · recent, may still be uploading'}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Missing files</h3>
+              {report.missing.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every reference has its file.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {report.missing.map((reference) => {
+                    const key = referenceKey(reference);
+                    const candidates = report.orphans.filter((object) => object.bucket === reference.bucket);
+                    return (
+                      <li key={key} className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium">
+                            {REFERENCE_LABELS[reference.kind]}: {reference.name}
+                          </p>
+                          <p className="truncate font-mono text-xs text-muted-foreground">
+                            {reference.bucket}/{reference.path}
+                          </p>
+                        </div>
+                        {reference.kind !== 'picture-disc' && reference.kind !== 'label-variant' && candidates.length > 0 && (
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={relinkTargets[key]}
+                              onValueChange={(value) => setRelinkTargets((current) => ({ ...current, [key]: value }))}
+                            >
+                              <SelectTrigger className="w-56">
+                                <SelectValue placeholder="Re-link to an unused file" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {candidates.map((object) => (
+                                  <SelectItem key={objectKey(object)} value={objectKey(object)}>
+                                    {object.path}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => handleRelink(reference)}
+                              disabled={!relinkTargets[key] || relink.isPending}
+                            >
+                              <Link2 className="mr-2 h-4 w-4" />
+                              Re-link
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Unused Files</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete {selectedOrphans.length} file(s) ({formatBytes(selectedOrphans.reduce((sum, object) => sum + object.size, 0))})
+              from storage? Files that have been put back into use since the check are kept. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default StorageReconciliation;
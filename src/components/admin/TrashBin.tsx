@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Image as ImageIcon, Music, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  usePurgeFromTrash,
+  useRestoreFromTrash,
+  useSetTrashRetention,
+  useTrash,
+  useTrashRetention,
+  type TrashedItem,
+} from '@/hooks/useTrash';
+import { DEFAULT_TRASH_RETENTION_DAYS, type TrashEntry } from '@/utils/trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (item: TrashedItem, retentionDays: number) =>
+  Math.max(0, Math.ceil((new Date(item.deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+const toEntry = ({ kind, id }: TrashedItem): TrashEntry => ({ kind, id });
+
+/** Deleted tracks and label images, to restore or purge before they expire. */
+const TrashBin = () => {
+  const { data: items, isLoading } = useTrash();
+  const { data: retentionDays = DEFAULT_TRASH_RETENTION_DAYS } = useTrashRetention();
+  const setRetention = useSetTrashRetention();
+  const restore = useRestoreFromTrash();
+  const purge = usePurgeFromTrash();
+  const [retentionDraft, setRetentionDraft] = useState(String(retentionDays));
+  // Either the items to purge, or null while the dialog is closed
+  const [purgeTarget, setPurgeTarget] = useState<TrashedItem[] | null>(null);
+
+  useEffect(() => {
+    setRetentionDraft(String(retentionDays));
+  }, [retentionDays]);
+
+  const draftDays = Number(retentionDraft);
+  const draftValid = Number.isInteger(draftDays) && draftDays >= 1 && draftDays <= 365;
+
+  const handlePurge = async () => {
+    if (!purgeTarget) return;
+    await purge.mutateAsync(purgeTarget.map(toEntry));
+    setPurgeTarget(null);
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Trash</CardTitle>
+          <CardDescription>
+            Deleted tracks and label images wait here for {retentionDays} day(s) before they and their files
+            are removed for good.
+          </CardDescription>
+        </div>
+        <Button
+          variant="destructive"
+          onClick={() => items && setPurgeTarget(items)}
+          disabled={!items || items.length === 0 || purge.isPending}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Empty Trash
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label htmlFor="trash-retention">Keep deleted items for (days)</Label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={1}
+              max={365}
+              className="w-32"
+              value={retentionDraft}
+              onChange={(e) => setRetentionDraft(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="secondary"
+            onClick={() => setRetention.mutate(draftDays)}
+            disabled={!draftValid || draftDays === retentionDays || setRetention.isPending}
+          >
+            Save
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading Trash...</p>
+        ) : !items || items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The Trash is empty.</p>
+        ) : (
+          <ul className="space-y-3">
+            {items.map((item) => (
+              <li key={`${item.kind}/${item.id}`} className="flex items-center justify-between gap-2">
+                <div className="flex min-w-0 items-center gap-3">
+                  {item.kind === 'track' ? (
+                    <Music className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <ImageIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {item.name}
+                      {item.detail && <span className="text-muted-foreground"> · {item.detail}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {new Date(item.deletedAt).toLocaleDateString()} · purged in{' '}
+                      {daysLeft(item, retentionDays)} day(s)
+                    </p>
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restore.mutate([toEntry(item)])}
+                    disabled={restore.isPending}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    onClick={() => setPurgeTarget([item])}
+                    aria-label={`Delete ${item.name} permanently`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.length === 1
+                ? `"${purgeTarget[0].name}" and its files will be deleted.`
+                : `${purgeTarget?.length ?? 0} items and their files will be deleted.`}{' '}
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TrashBin;
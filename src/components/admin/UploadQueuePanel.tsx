@@ -0,0 +1,119 @@
+import { Download, Pause, Play, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import {
+  downloadUploadReport,
+  canInterruptUpload,
+  isActiveUpload,
+  type UploadQueueItem,
+  type UploadStatus,
+  type useUploadQueue,
+} from '@/hooks/useUploadQueue';
+
+interface UploadQueuePanelProps {
+  queue: ReturnType<typeof useUploadQueue>;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  preparing: 'Reading tags',
+  uploading: 'Uploading',
+  saving: 'Saving',
+  paused: 'Paused',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  skipped: 'Skipped',
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const itemProgress = (item: UploadQueueItem) =>
+  item.status === 'done' ? 100 : item.file.size > 0 ? (item.uploadedBytes / item.file.size) * 100 : 0;
+
+/** Per-file status of the bulk upload queue, with pause, resume, cancel and retry. */
+const UploadQueuePanel = ({ queue }: UploadQueuePanelProps) => {
+  const { items, pause, resume, resumeAll, cancel, retry, clearFinished } = queue;
+  const count = (status: UploadStatus) => items.filter((item) => item.status === status).length;
+  const activeCount = items.filter(isActiveUpload).length;
+  const pausedCount = count('paused');
+  const finishedCount = count('done') + count('cancelled') + count('skipped');
+  const busy = activeCount > 0 || count('queued') > 0;
+
+  return (
+    <div className="mb-4 rounded-md border border-border p-3">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {count('done')} of {items.length - count('skipped')} uploaded
+          {activeCount > 0 && ` · ${activeCount} in progress`}
+          {pausedCount > 0 && ` · ${pausedCount} paused`}
+          {count('failed') > 0 && ` · ${count('failed')} failed`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {pausedCount > 0 && (
+            <Button variant="secondary" size="sm" onClick={resumeAll}>
+              <Play className="mr-2 h-4 w-4" />
+              Resume All
+            </Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={clearFinished} disabled={finishedCount === 0}>
+            Clear Finished
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => downloadUploadReport(items)} disabled={busy}>
+            <Download className="mr-2 h-4 w-4" />
+            Report
+          </Button>
+        </div>
+      </div>
+
+      <ul className="max-h-72 space-y-3 overflow-y-auto pr-1">
+        {items.map((item) => (
+          <li key={item.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{item.trackTitle ?? item.file.name}</p>
+                <p
+                  className={cn(
+                    'truncate text-xs text-muted-foreground',
+                    item.status === 'failed' && 'text-destructive'
+                  )}
+                >
+                  {STATUS_LABELS[item.status]}
+                  {item.status !== 'skipped' &&
+                    ` · ${formatMegabytes(item.uploadedBytes)} of ${formatMegabytes(item.file.size)}`}
+                  {item.error && ` · ${item.error}`}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {canInterruptUpload(item) && (
+                  <Button variant="ghost" size="icon" onClick={() => pause(item.id)} aria-label="Pause upload">
+                    <Pause className="h-4 w-4" />
+                  </Button>
+                )}
+                {item.status === 'paused' && (
+                  <Button variant="ghost" size="icon" onClick={() => resume(item.id)} aria-label="Resume upload">
+                    <Play className="h-4 w-4" />
+                  </Button>
+                )}
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <Button variant="ghost" size="icon" onClick={() => retry(item.id)} aria-label="Retry upload">
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {(canInterruptUpload(item) || item.status === 'paused' || item.status === 'failed') && (
+                  <Button variant="ghost" size="icon" onClick={() => cancel(item.id)} aria-label="Cancel upload">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {item.status !== 'skipped' && <Progress value={itemProgress(item)} className="h-1.5" />}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadQueuePanel;
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, ImageIcon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import VinylSurface from '@/components/VinylSurface';
+import {
+  DEFAULT_VINYL_STYLE,
+  VINYL_STYLE_OPTIONS,
+  resolveVinylStyle,
+  type VinylStyle,
+} from '@/config/vinylStyles';
+import { useActivePlayerTheme } from '@/hooks/usePlayerTheme';
+import { useSetVinylStyle, useUploadPictureDiscImage, useVinylStyle } from '@/hooks/useVinylStyle';
+
+/** Lets the admin pick what the record on the platter is pressed in. */
+const VinylStylePicker = () => {
+  const { theme } = useActivePlayerTheme();
+  const { data: savedStyle, isLoading } = useVinylStyle();
+  const setVinylStyle = useSetVinylStyle();
+  const uploadPicture = useUploadPictureDiscImage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const themeStyle = theme.vinyl ?? DEFAULT_VINYL_STYLE;
+  const [draft, setDraft] = useState<VinylStyle>(themeStyle);
+
+  // Start from whatever visitors currently see
+  useEffect(() => {
+    if (!isLoading) setDraft(resolveVinylStyle(savedStyle ?? themeStyle));
+  }, [savedStyle, isLoading, themeStyle]);
+
+  const draftOption = VINYL_STYLE_OPTIONS.find((option) => option.kind === draft.kind);
+  const usesColour = draft.kind === 'colour' || draft.kind === 'marbled' || draft.kind === 'splatter';
+  const usesAccent = draft.kind === 'marbled' || draft.kind === 'splatter';
+  const canApply = draft.kind !== 'picture' || !!draft.imageUrl;
+
+  const handlePictureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    uploadPicture.mutate(file, {
+      onSuccess: (imageUrl) => setDraft((current) => ({ ...current, imageUrl })),
+    });
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Record Style</CardTitle>
+        <CardDescription>
+          Choose what the record is pressed in. The centre label stays as it is.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading record style...</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+              {VINYL_STYLE_OPTIONS.map((option) => {
+                const isSelected = option.kind === draft.kind;
+                return (
+                  <button
+                    key={option.kind}
+                    type="button"
+                    onClick={() => {
+                      if (!isSelected) setDraft(resolveVinylStyle({ kind: option.kind, imageUrl: draft.imageUrl }));
+                    }}
+                    aria-pressed={isSelected}
+                    className={cn(
+                      'rounded-lg border p-3 text-left transition-all',
+                      'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                      isSelected ? 'border-primary ring-2 ring-primary/40' : 'border-border hover:border-primary/60'
+                    )}
+                  >
+                    <div className="aspect-square">
+                      <VinylSurface
+                        style={resolveVinylStyle(
+                          isSelected ? draft : { kind: option.kind, imageUrl: draft.imageUrl }
+                        )}
+                        artworkUrl={theme.assets.record}
+                        size={256}
+                      />
+                    </div>
+                    <p className="mt-2 text-sm font-medium">{option.name}</p>
+                  </button>
+                );
+              })}
+            </div>
+
+            {draftOption && <p className="text-sm text-muted-foreground">{draftOption.description}</p>}
+
+            {usesColour && (
+              <div className="flex flex-wrap gap-4">
+                <div>
+                  <Label htmlFor="vinyl-colour">Vinyl colour</Label>
+                  <Input
+                    id="vinyl-colour"
+                    type="color"
+                    className="h-10 w-20 p-1"
+                    value={draft.colour}
+                    onChange={(e) => setDraft({ ...draft, colour: e.target.value })}
+                  />
+                </div>
+                {usesAccent && (
+                  <div>
+                    <Label htmlFor="vinyl-accent">{draft.kind === 'marbled' ? 'Swirl colour' : 'Splatter colour'}</Label>
+                    <Input
+                      id="vinyl-accent"
+                      type="color"
+                      className="h-10 w-20 p-1"
+                      value={draft.accent}
+                      onChange={(e) => setDraft({ ...draft, accent: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {draft.kind === 'picture' && (
+              <div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={handlePictureChange}
+                />
+                <Button
+                  variant="secondary"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploadPicture.isPending}
+                >
+                  {uploadPicture.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ImageIcon className="mr-2 h-4 w-4" />
+                  )}
+                  {draft.imageUrl ? 'Replace Artwork' : 'Upload Artwork'}
+                </Button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => setVinylStyle.mutate(draft)}
+                disabled={!canApply || setVinylStyle.isPending}
+              >
+                {setVinylStyle.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Check className="mr-2 h-4 w-4" />
+                )}
+                Apply
+              </Button>
+              {savedStyle && (
+                <Button
+                  variant="outline"
+                  onClick={() => setVinylStyle.mutate(null)}
+                  disabled={setVinylStyle.isPending}
+                >
+                  Use Theme Default
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VinylStylePicker;
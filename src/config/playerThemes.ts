@@ -1,3 +1,5 @@
+import type { VinylStyle } from "@/config/vinylStyles";
+
 /**
  * Player look & feel presets.
  *
@@ -16,20 +18,57 @@ export interface PlayerThemeGeometry {
     lengthScale: number;
     pivotXPct: number;
     pivotYPct: number;
+    /** Width / height of the tonearm artwork. */
+    aspectRatio: number;
+    /** Pivot-to-stylus distance, as a percentage of the artwork height. */
+    armLengthPct: number;
+    /** Angle of the pivot-to-stylus line from straight down in the artwork (positive = towards the record). */
+    stylusOffsetDeg: number;
   };
-  angles: { REST: number; START: number; END: number };
+  /** Outermost and innermost groove, as a percentage of the record radius. */
+  grooves: { leadInPct: number; leadOutPct: number };
+  /** Where the arm parks; the playing angles follow from the groove geometry. */
+  angles: { REST: number };
+}
+
+/** How long the platter takes to reach speed and to coast to a stop. */
+export interface PlayerThemeInertia {
+  spinUpMs: number;
+  spinDownMs: number;
 }
 
+/** Surface character of the record, each layer 0 (off) .. 1 (worn out). */
+export interface PlayerThemeSurfaceNoise {
+  crackle: number;
+  hiss: number;
+  rumble: number;
+  /** Slow pitch drift from an off-centre or warped record. */
+  wow: number;
+  /** Fast pitch wobble from the drive. */
+  flutter: number;
+}
+
+/** How the player visualises what's playing. */
+export type PlayerMeterStyle = "vu" | "led" | "spectrum";
+
 export interface PlayerTheme extends PlayerThemeGeometry {
   id: string;
   name: string;
   description: string;
   assets: { deck: string; record: string; tonearm: string; thumb: string };
+  /** Record style when the admin hasn't chosen one. Defaults to the black artwork. */
+  vinyl?: VinylStyle;
+  /** Overrides the player's default platter inertia. */
+  inertia?: Partial<PlayerThemeInertia>;
+  /** Needle VU meters, an LED ladder or a spectrum, coloured by the `--meter-*` tokens. */
+  meter: PlayerMeterStyle;
+  /** Overrides the player's default surface noise. */
+  surfaceNoise?: Partial<PlayerThemeSurfaceNoise>;
   /** CSS custom properties applied to :root while this theme is active. */
   tokens: Record<string, string>;
 }
 
-const SHARED_ANGLES = { REST: 2.0, START: 27.5, END: 41.4 };
+const SHARED_ANGLES = { REST: 2.0 };
 
 export const PLAYER_THEMES: PlayerTheme[] = [
   {
@@ -51,8 +90,13 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       lengthScale: 1.0,
       pivotXPct: 54.0,
       pivotYPct: 24.0,
+      aspectRatio: 0.5,
+      armLengthPct: 69.0,
+      stylusOffsetDeg: 11.6,
     },
+    grooves: { leadInPct: 99.0, leadOutPct: 63.0 },
     angles: { ...SHARED_ANGLES },
+    meter: "vu",
     tokens: {
       "--background": "26 22% 8%",
       "--foreground": "32 18% 78%",
@@ -88,6 +132,11 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       "--knob-edge": "26 20% 24%",
       "--knob-outline": "28 18% 30%",
       "--knob-shadow": "22 40% 5%",
+      "--meter-face": "40 62% 78%",
+      "--meter-ink": "26 30% 12%",
+      "--meter-low": "96 40% 42%",
+      "--meter-mid": "40 85% 50%",
+      "--meter-peak": "4 72% 48%",
     },
   },
   {
@@ -109,8 +158,13 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       lengthScale: 1.0,
       pivotXPct: 54.0,
       pivotYPct: 24.0,
+      aspectRatio: 0.5,
+      armLengthPct: 69.0,
+      stylusOffsetDeg: 11.6,
     },
+    grooves: { leadInPct: 82.0, leadOutPct: 46.0 },
     angles: { ...SHARED_ANGLES },
+    meter: "led",
     tokens: {
       "--background": "220 8% 6%",
       "--foreground": "220 8% 82%",
@@ -146,6 +200,11 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       "--knob-edge": "220 10% 10%",
       "--knob-outline": "220 8% 26%",
       "--knob-shadow": "220 12% 3%",
+      "--meter-face": "220 10% 7%",
+      "--meter-ink": "210 10% 70%",
+      "--meter-low": "150 70% 45%",
+      "--meter-mid": "45 95% 55%",
+      "--meter-peak": "0 85% 55%",
     },
   },
   {
@@ -167,8 +226,17 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       lengthScale: 1.0,
       pivotXPct: 54.0,
       pivotYPct: 24.0,
+      aspectRatio: 0.5,
+      armLengthPct: 69.0,
+      stylusOffsetDeg: 11.6,
     },
+    grooves: { leadInPct: 84.0, leadOutPct: 47.0 },
     angles: { ...SHARED_ANGLES },
+    meter: "vu",
+    // Light portable platter: quick to start, quick to stop
+    inertia: { spinUpMs: 500, spinDownMs: 900 },
+    // Well-loved thrift-shop record on a budget deck
+    surfaceNoise: { crackle: 0.7, hiss: 0.4, rumble: 0.3, wow: 0.45, flutter: 0.3 },
     tokens: {
       "--background": "36 30% 90%",
       "--foreground": "28 25% 20%",
@@ -204,6 +272,11 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       "--knob-edge": "30 22% 62%",
       "--knob-outline": "34 22% 70%",
       "--knob-shadow": "28 25% 40%",
+      "--meter-face": "42 55% 90%",
+      "--meter-ink": "26 30% 18%",
+      "--meter-low": "110 30% 42%",
+      "--meter-mid": "32 70% 50%",
+      "--meter-peak": "6 65% 50%",
     },
   },
   {
@@ -225,8 +298,17 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       lengthScale: 1.0,
       pivotXPct: 54.0,
       pivotYPct: 24.0,
+      aspectRatio: 0.5,
+      armLengthPct: 69.0,
+      stylusOffsetDeg: 11.6,
     },
+    grooves: { leadInPct: 84.0, leadOutPct: 46.0 },
     angles: { ...SHARED_ANGLES },
+    meter: "spectrum",
+    // Heavy audiophile platter: slow to spin up, long coast down
+    inertia: { spinUpMs: 1400, spinDownMs: 2600 },
+    // Fresh pressing on a direct-drive deck: dead quiet
+    surfaceNoise: { crackle: 0, hiss: 0, rumble: 0, wow: 0, flutter: 0 },
     tokens: {
       "--background": "212 16% 14%",
       "--foreground": "210 14% 84%",
@@ -262,6 +344,11 @@ export const PLAYER_THEMES: PlayerTheme[] = [
       "--knob-edge": "212 16% 30%",
       "--knob-outline": "212 14% 38%",
       "--knob-shadow": "212 22% 8%",
+      "--meter-face": "212 20% 12%",
+      "--meter-ink": "205 18% 80%",
+      "--meter-low": "195 70% 55%",
+      "--meter-mid": "180 60% 70%",
+      "--meter-peak": "350 75% 60%",
     },
   },
 ];
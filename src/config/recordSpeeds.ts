@@ -0,0 +1,23 @@
+/**
+ * Turntable speeds. Records are labelled by their nominal speed (33, 45, 78);
+ * `rpm` is the real rotation rate.
+ */
+
+export type RecordSpeed = 33 | 45 | 78;
+
+export const RECORD_SPEEDS: { value: RecordSpeed; label: string; rpm: number }[] = [
+  { value: 33, label: '33⅓', rpm: 100 / 3 },
+  { value: 45, label: '45', rpm: 45 },
+  { value: 78, label: '78', rpm: 78 },
+];
+
+export const DEFAULT_RECORD_SPEED: RecordSpeed = 33;
+
+/** The pitch fader trims the speed by up to this much either way (±8%). */
+export const PITCH_RANGE = 0.08;
+
+export const rpmOf = (speed: RecordSpeed | undefined) =>
+  (RECORD_SPEEDS.find((s) => s.value === speed) ?? RECORD_SPEEDS[0]).rpm;
+
+export const speedLabel = (speed: RecordSpeed | undefined) =>
+  (RECORD_SPEEDS.find((s) => s.value === speed) ?? RECORD_SPEEDS[0]).label;
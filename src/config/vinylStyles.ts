@@ -0,0 +1,65 @@
+/**
+ * How the vinyl itself looks. Black uses the turntable theme's own record
+ * artwork; every other kind is painted procedurally by `paintVinyl`.
+ */
+
+export type VinylStyleKind = 'black' | 'colour' | 'marbled' | 'splatter' | 'picture';
+
+export interface VinylStyle {
+  kind: VinylStyleKind;
+  /** Main vinyl colour (colour, marbled and splatter discs). */
+  colour?: string;
+  /** Swirl or splat colour (marbled and splatter discs). */
+  accent?: string;
+  /** Printed artwork for picture discs. */
+  imageUrl?: string;
+}
+
+export interface VinylStyleOption {
+  kind: VinylStyleKind;
+  name: string;
+  description: string;
+  /** Colours used when the style is first picked. */
+  defaults: Pick<VinylStyle, 'colour' | 'accent'>;
+}
+
+export const VINYL_STYLE_OPTIONS: VinylStyleOption[] = [
+  {
+    kind: 'black',
+    name: 'Classic Black',
+    description: 'The record that comes with the turntable style.',
+    defaults: {},
+  },
+  {
+    kind: 'colour',
+    name: 'Translucent Colour',
+    description: 'Tinted vinyl that lets the platter glow through.',
+    defaults: { colour: '#b3122e' },
+  },
+  {
+    kind: 'marbled',
+    name: 'Marbled',
+    description: 'Two colours swirled together in the press.',
+    defaults: { colour: '#1f3b73', accent: '#e8e2d4' },
+  },
+  {
+    kind: 'splatter',
+    name: 'Splatter',
+    description: 'Solid vinyl with drops of a second colour.',
+    defaults: { colour: '#f2c230', accent: '#141414' },
+  },
+  {
+    kind: 'picture',
+    name: 'Picture Disc',
+    description: 'Your own artwork pressed under clear vinyl.',
+    defaults: {},
+  },
+];
+
+export const DEFAULT_VINYL_STYLE: VinylStyle = { kind: 'black' };
+
+/** Fills in missing colours for the chosen kind. */
+export function resolveVinylStyle(style: VinylStyle): VinylStyle {
+  const option = VINYL_STYLE_OPTIONS.find((o) => o.kind === style.kind);
+  return option ? { ...option.defaults, ...style } : DEFAULT_VINYL_STYLE;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import type { AudioEngine } from '@/utils/audioEngine';
+
+export interface StereoAnalyser {
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
+const FFT_SIZE = 2048;
+
+/**
+ * Taps the engine output (after tone, volume and surface noise) into a pair of
+ * analysers, one per channel, so meters show exactly what the visitor hears.
+ */
+export function useAudioAnalyser(engine: AudioEngine) {
+  const [analyser, setAnalyser] = useState<StereoAnalyser | null>(null);
+
+  useEffect(() => {
+    const { context, output } = engine.getGraph();
+    const splitter = context.createChannelSplitter(2);
+    // Up-mix mono sources so both meters move
+    splitter.channelInterpretation = 'speakers';
+    const left = context.createAnalyser();
+    const right = context.createAnalyser();
+    [left, right].forEach((node) => {
+      node.fftSize = FFT_SIZE;
+      // Meters apply their own ballistics
+      node.smoothingTimeConstant = 0;
+    });
+    output.connect(splitter);
+    splitter.connect(left, 0);
+    splitter.connect(right, 1);
+    setAnalyser({ left, right });
+
+    return () => {
+      setAnalyser(null);
+      splitter.disconnect();
+      // The engine may already have closed the context on unmount
+      try {
+        output.disconnect(splitter);
+      } catch {
+        // Already disconnected
+      }
+    };
+  }, [engine]);
+
+  return analyser;
+}
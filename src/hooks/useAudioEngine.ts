@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { createAudioEngine, type AudioEngine, type AudioEngineEvent } from '@/utils/audioEngine';
+
+/** One Web Audio engine per mounted player, torn down on unmount. */
+export function useAudioEngine() {
+  const [engine] = useState<AudioEngine>(() => createAudioEngine());
+
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  return engine;
+}
+
+/** Subscribes to engine events for the lifetime of the calling component. */
+export function useAudioEngineEvents(
+  engine: AudioEngine,
+  listener: (event: AudioEngineEvent) => void
+) {
+  useEffect(() => engine.subscribe(listener), [engine, listener]);
+}
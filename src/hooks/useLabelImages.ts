@@ -1,6 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { undoToastAction } from '@/components/UndoToastAction';
+import { moveToTrash, restoreFromTrash } from '@/utils/trash';
+import { removeStorageObjects } from '@/utils/storageObjects';
+import type { LabelImageVariant, RenderedLabelVariant } from '@/utils/labelImageProcessing';
 
 export interface LabelImage {
   id: string;
@@ -9,6 +13,9 @@ export interface LabelImage {
   is_active: boolean;
   uploaded_by: string | null;
   file_size: number | null;
+  /** Stored sizes for srcset; null for labels uploaded before they were made. */
+  variants: LabelImageVariant[] | null;
+  deleted_at: string | null;
   created_at: string;
 }
 
@@ -19,6 +26,7 @@ export function useLabelImages() {
       const { data, error } = await (supabase as any)
         .from('label_images')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
@@ -35,6 +43,7 @@ export function useActiveLabelImage() {
         .from('label_images')
         .select('*')
         .eq('is_active', true)
+        .is('deleted_at', null)
         .single();
       
       if (error && error.code !== 'PGRST116') throw error;
@@ -47,35 +56,48 @@ export function useUploadLabelImage() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (file: File) => {
-      // Upload to storage
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('label-images')
-        .upload(fileName, file);
+    mutationFn: async ({ name, variants }: { name: string; variants: RenderedLabelVariant[] }) => {
+      // Upload every size, smallest first
+      const stamp = Date.now();
+      const stored: LabelImageVariant[] = [];
+      try {
+        for (const { width, blob } of variants) {
+          const fileExt = blob.type.split('/').pop() || 'png';
+          const fileName = `${stamp}-${width}.${fileExt}`;
 
-      if (uploadError) throw uploadError;
+          const { error: uploadError } = await supabase.storage
+            .from('label-images')
+            .upload(fileName, blob, { contentType: blob.type });
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('label-images')
-        .getPublicUrl(fileName);
+          if (uploadError) throw uploadError;
 
-      // Insert database record
-      const { data: { user } } = await supabase.auth.getUser();
-      const { error: insertError } = await (supabase as any)
-        .from('label_images')
-        .insert({
-          name: file.name,
-          image_url: publicUrl,
-          is_active: false,
-          uploaded_by: user?.id,
-          file_size: file.size,
-        });
-
-      if (insertError) throw insertError;
+          // Get public URL
+          const { data: { publicUrl } } = supabase.storage
+            .from('label-images')
+            .getPublicUrl(fileName);
+          stored.push({ width, url: publicUrl });
+        }
+        const largest = variants[variants.length - 1];
+
+        // Insert database record
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error: insertError } = await (supabase as any)
+          .from('label_images')
+          .insert({
+            name,
+            image_url: stored[stored.length - 1].url,
+            is_active: false,
+            uploaded_by: user?.id,
+            file_size: largest.blob.size,
+            variants: stored,
+          });
+
+        if (insertError) throw insertError;
+      } catch (error) {
+        // Without a row nothing points at the sizes already stored
+        await removeStorageObjects('label-images', stored.map((variant) => variant.url));
+        throw error;
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['label-images'] });
@@ -135,31 +157,36 @@ export function useSetActiveLabelImage() {
   });
 }
 
+/** Moves a label image to the Trash. An active label stays active, so undoing puts it straight back. */
 export function useDeleteLabelImage() {
   const queryClient = useQueryClient();
 
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['label-images'] });
+    queryClient.invalidateQueries({ queryKey: ['active-label'] });
+    // Tracks and records fall back to another label while this one is in the Trash
+    queryClient.invalidateQueries({ queryKey: ['tracks'] });
+    queryClient.invalidateQueries({ queryKey: ['records'] });
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+  };
+
   return useMutation({
-    mutationFn: async ({ labelId, imageUrl }: { labelId: string; imageUrl: string }) => {
-      // Delete from database
-      const { error: dbError } = await (supabase as any)
-        .from('label_images')
-        .delete()
-        .eq('id', labelId);
-      
-      if (dbError) throw dbError;
-
-      // Delete from storage
-      const fileName = imageUrl.split('/').pop();
-      if (fileName) {
-        await supabase.storage
-          .from('label-images')
-          .remove([fileName]);
-      }
+    mutationFn: async (labelId: string) => {
+      await moveToTrash([{ kind: 'label', id: labelId }]);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['label-images'] });
-      queryClient.invalidateQueries({ queryKey: ['active-label'] });
-      toast({ title: 'Label image deleted successfully' });
+    onSuccess: (_, labelId) => {
+      invalidate();
+      toast({
+        title: 'Label image moved to Trash',
+        action: undoToastAction(async () => {
+          try {
+            await restoreFromTrash([{ kind: 'label', id: labelId }]);
+            invalidate();
+          } catch {
+            toast({ title: 'Error restoring label image', variant: 'destructive' });
+          }
+        }),
+      });
     },
     onError: () => {
       toast({ 
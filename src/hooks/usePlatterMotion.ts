@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+interface PlatterMotionOptions {
+  spinning: boolean;
+  /** Seconds per rotation at full speed. */
+  periodSeconds: number;
+  spinUpMs: number;
+  spinDownMs: number;
+  /** A hand is on the record: it only moves when nudged, though the motor keeps running. */
+  held?: boolean;
+}
+
+/**
+ * Rotates the record with motor inertia: the platter accelerates to speed and
+ * coasts to a stop instead of snapping between still and spinning.
+ * The transform is written straight onto `discRef` so frames don't re-render.
+ */
+export function usePlatterMotion({ spinning, periodSeconds, spinUpMs, spinDownMs, held = false }: PlatterMotionOptions) {
+  const discRef = useRef<HTMLDivElement>(null);
+  // 0 = standing still, 1 = full speed
+  const speedRef = useRef(0);
+  const angleRef = useRef(0);
+  const optionsRef = useRef({ periodSeconds, spinUpMs, spinDownMs });
+  optionsRef.current = { periodSeconds, spinUpMs, spinDownMs };
+  const heldRef = useRef(held);
+  heldRef.current = held;
+
+  const applyAngle = useCallback(() => {
+    if (discRef.current) {
+      discRef.current.style.transform = `rotate(${angleRef.current}deg)`;
+    }
+  }, []);
+
+  useEffect(() => {
+    const target = spinning ? 1 : 0;
+    let frame = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      const { periodSeconds, spinUpMs, spinDownMs } = optionsRef.current;
+
+      const speed = speedRef.current;
+      const rampMs = target > speed ? spinUpMs : spinDownMs;
+      const step = rampMs > 0 ? elapsed / rampMs : 1;
+      speedRef.current = target > speed ? Math.min(target, speed + step) : Math.max(target, speed - step);
+
+      if (!heldRef.current) {
+        angleRef.current = (angleRef.current + (360 * speedRef.current * elapsed) / (periodSeconds * 1000)) % 360;
+        applyAngle();
+      }
+
+      if (speedRef.current > 0 || target > 0) {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [spinning, applyAngle]);
+
+  /** Turns the record by hand. */
+  const nudge = useCallback((degrees: number) => {
+    angleRef.current = (angleRef.current + degrees) % 360;
+    applyAngle();
+  }, [applyAngle]);
+
+  const getSpeed = useCallback(() => speedRef.current, []);
+
+  /** Seconds the platter needs to reach `target` speed from where it is now. */
+  const getRampSeconds = useCallback((target: number) => {
+    const { spinUpMs, spinDownMs } = optionsRef.current;
+    const distance = target - speedRef.current;
+    return (Math.abs(distance) * (distance > 0 ? spinUpMs : spinDownMs)) / 1000;
+  }, []);
+
+  return { discRef, getSpeed, getRampSeconds, nudge };
+}
@@ -38,7 +38,7 @@ export function useActivePlayerTheme() {
   return { theme: getPlayerTheme(preview ?? data), isLoading };
 }
 
-/** Keeps the active theme in sync across open browsers. */
+/** Keeps the active theme and record style in sync across open browsers. */
 export function usePlayerThemeRealtime() {
   const queryClient = useQueryClient();
 
@@ -50,6 +50,7 @@ export function usePlayerThemeRealtime() {
         { event: '*', schema: 'public', table: 'player_settings' },
         () => {
           queryClient.invalidateQueries({ queryKey: ['player-theme'] });
+          queryClient.invalidateQueries({ queryKey: ['vinyl-style'] });
         }
       )
       .subscribe();
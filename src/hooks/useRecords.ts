@@ -0,0 +1,274 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import type { VinylStyle } from '@/config/vinylStyles';
+import type { RecordSide } from '@/hooks/useTracks';
+import type { LabelImageVariant } from '@/utils/labelImageProcessing';
+
+/** Label set for a whole side of a record. */
+export interface SideLabel {
+  labelImageId: string;
+  /** Null while the label is in the Trash. */
+  labelImageUrl: string | null;
+  labelImageVariants: LabelImageVariant[] | null;
+}
+
+/** A record in the collection. Named to stay clear of TypeScript's `Record`. */
+export interface VinylRecord {
+  id: string;
+  title: string;
+  artist: string;
+  sleeveUrl: string | null;
+  /** Null shows the front faded behind the tracklist. */
+  backSleeveUrl: string | null;
+  /** Null uses the site-wide active label. */
+  labelImageId: string | null;
+  labelImageUrl: string | null;
+  labelImageVariants: LabelImageVariant[] | null;
+  /** Labels for sides that have their own; a track's own label still wins. */
+  sideLabels: Partial<Record<RecordSide, SideLabel>>;
+  /** Null uses the site-wide record style. */
+  vinylStyle: VinylStyle | null;
+  orderIndex: number;
+}
+
+export interface RecordChanges {
+  title: string;
+  artist: string;
+  sleeveUrl: string | null;
+  backSleeveUrl: string | null;
+  labelImageId: string | null;
+  vinylStyle: VinylStyle | null;
+}
+
+const recordColumns = (changes: Partial<RecordChanges>) => ({
+  ...(changes.title !== undefined && { title: changes.title }),
+  ...(changes.artist !== undefined && { artist: changes.artist }),
+  ...(changes.sleeveUrl !== undefined && { sleeve_url: changes.sleeveUrl }),
+  ...(changes.backSleeveUrl !== undefined && { back_sleeve_url: changes.backSleeveUrl }),
+  ...(changes.labelImageId !== undefined && { label_image_id: changes.labelImageId }),
+  ...(changes.vinylStyle !== undefined && { vinyl_style: changes.vinylStyle as unknown as Json }),
+});
+
+export function useRecords() {
+  return useQuery({
+    queryKey: ['records'],
+    queryFn: async (): Promise<VinylRecord[]> => {
+      const { data, error } = await supabase
+        .from('records')
+        .select('*, label_images(image_url, variants, deleted_at), side_labels(side, label_image_id, label_images(image_url, variants, deleted_at))')
+        .order('order_index')
+        .order('created_at');
+
+      if (error) throw error;
+
+      return data.map((record) => {
+        // A label in the Trash falls back to the active one like no label at all
+        const label = record.label_images && !record.label_images.deleted_at ? record.label_images : null;
+        const sideLabels: Partial<Record<RecordSide, SideLabel>> = {};
+        record.side_labels.forEach((sideLabel) => {
+          const image = sideLabel.label_images && !sideLabel.label_images.deleted_at ? sideLabel.label_images : null;
+          sideLabels[sideLabel.side as RecordSide] = {
+            labelImageId: sideLabel.label_image_id,
+            labelImageUrl: image?.image_url ?? null,
+            labelImageVariants: (image?.variants ?? null) as unknown as LabelImageVariant[] | null,
+          };
+        });
+        return {
+          id: record.id,
+          title: record.title,
+          artist: record.artist,
+          sleeveUrl: record.sleeve_url,
+          backSleeveUrl: record.back_sleeve_url,
+          labelImageId: record.label_image_id,
+          labelImageUrl: label?.image_url ?? null,
+          labelImageVariants: (label?.variants ?? null) as unknown as LabelImageVariant[] | null,
+          sideLabels,
+          vinylStyle: record.vinyl_style as unknown as VinylStyle | null,
+          orderIndex: record.order_index,
+        };
+      });
+    },
+  });
+}
+
+/** Keeps the crate in sync when the admin edits the collection. */
+export function useRecordsRealtime() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('record-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'records' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['records'] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'side_labels' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['records'] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
+
+export function useCreateRecord() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: RecordChanges) => {
+      const { data: last } = await supabase
+        .from('records')
+        .select('order_index')
+        .order('order_index', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data, error } = await supabase
+        .from('records')
+        .insert({ title: changes.title, ...recordColumns(changes), order_index: (last?.order_index ?? -1) + 1 })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      toast({ title: 'Record created' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error creating record',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateRecord() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: Partial<RecordChanges> & { id: string }) => {
+      const { error } = await supabase
+        .from('records')
+        .update(recordColumns(changes))
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      toast({ title: 'Record updated' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating record',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Sets the label for one side of a record; null goes back to the record's label. */
+export function useSetSideLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ recordId, side, labelImageId }: { recordId: string; side: RecordSide; labelImageId: string | null }) => {
+      const { error } = labelImageId
+        ? await supabase
+            .from('side_labels')
+            .upsert({ record_id: recordId, side, label_image_id: labelImageId })
+        : await supabase
+            .from('side_labels')
+            .delete()
+            .eq('record_id', recordId)
+            .eq('side', side);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { side }) => {
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      toast({ title: `Side ${side} label updated` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating side label',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Deletes a record. Its tracks stay, unassigned, for moving to another record. */
+export function useDeleteRecord() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('records')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      queryClient.invalidateQueries({ queryKey: ['tracks'] });
+      toast({ title: 'Record deleted' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error deleting record',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Uploads sleeve art next to the label images and returns its public URL. */
+export function useUploadSleeveArt() {
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const fileExt = file.name.split('.').pop();
+      const fileName = `sleeves/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('label-images')
+        .upload(fileName, file, { contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('label-images')
+        .getPublicUrl(fileName);
+
+      return publicUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error uploading sleeve art',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
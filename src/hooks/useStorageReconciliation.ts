@@ -0,0 +1,214 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type { VinylStyle } from '@/config/vinylStyles';
+import type { LabelImageVariant } from '@/utils/labelImageProcessing';
+import {
+  listBucketObjects,
+  storagePathFromUrl,
+  type StorageBucket,
+  type StorageObject,
+} from '@/utils/storageObjects';
+
+export type StorageReferenceKind =
+  | 'track-audio'
+  | 'track-cover'
+  | 'label-image'
+  | 'label-variant'
+  | 'record-sleeve'
+  | 'record-back-sleeve'
+  | 'picture-disc';
+
+/** A database value pointing at a storage object. */
+export interface StorageReference {
+  kind: StorageReferenceKind;
+  /** Row id; the settings or record row for picture discs. */
+  id: string;
+  name: string;
+  bucket: StorageBucket;
+  path: string;
+}
+
+export interface StorageReport {
+  objects: StorageObject[];
+  /** Objects nothing points at. */
+  orphans: StorageObject[];
+  /** References whose object is gone. */
+  missing: StorageReference[];
+  totalBytes: number;
+  orphanBytes: number;
+}
+
+// Uploads write the file before the row, so a very new object may just not be saved yet
+const RECENT_OBJECT_MS = 60 * 60 * 1000;
+
+export const isRecentObject = (object: StorageObject) =>
+  object.createdAt !== null && Date.now() - new Date(object.createdAt).getTime() < RECENT_OBJECT_MS;
+
+const objectKey = (bucket: StorageBucket, path: string) => `${bucket}/${path}`;
+
+async function fetchStorageReferences(): Promise<StorageReference[]> {
+  const [tracksResult, labelsResult, recordsResult, settingsResult] = await Promise.all([
+    supabase.from('tracks').select('id, title, audio_url, cover_url'),
+    supabase.from('label_images').select('id, name, image_url, variants'),
+    supabase.from('records').select('id, title, sleeve_url, back_sleeve_url, vinyl_style'),
+    supabase.from('player_settings').select('id, vinyl_style'),
+  ]);
+
+  if (tracksResult.error) throw tracksResult.error;
+  if (labelsResult.error) throw labelsResult.error;
+  if (recordsResult.error) throw recordsResult.error;
+  if (settingsResult.error) throw settingsResult.error;
+
+  const references: StorageReference[] = [];
+  const add = (kind: StorageReferenceKind, id: string, name: string, bucket: StorageBucket, url: string | null) => {
+    const path = storagePathFromUrl(url, bucket);
+    if (path) references.push({ kind, id, name, bucket, path });
+  };
+
+  tracksResult.data.forEach((track) => {
+    add('track-audio', track.id, track.title, 'tracks', track.audio_url);
+    add('track-cover', track.id, track.title, 'label-images', track.cover_url);
+  });
+  labelsResult.data.forEach((label) => {
+    add('label-image', label.id, label.name, 'label-images', label.image_url);
+    // The largest size is the image itself
+    ((label.variants as unknown as LabelImageVariant[] | null) ?? [])
+      .filter((variant) => variant.url !== label.image_url)
+      .forEach((variant) => add('label-variant', label.id, `${label.name} (${variant.width}px)`, 'label-images', variant.url));
+  });
+  recordsResult.data.forEach((record) => {
+    const style = record.vinyl_style as unknown as VinylStyle | null;
+    add('record-sleeve', record.id, record.title, 'label-images', record.sleeve_url);
+    add('record-back-sleeve', record.id, `${record.title} back`, 'label-images', record.back_sleeve_url);
+    add('picture-disc', record.id, `${record.title} picture disc`, 'label-images', style?.imageUrl ?? null);
+  });
+  settingsResult.data.forEach((settings) => {
+    const style = settings.vinyl_style as unknown as VinylStyle | null;
+    add('picture-disc', settings.id, 'Picture disc artwork', 'label-images', style?.imageUrl ?? null);
+  });
+
+  return references;
+}
+
+/** Diffs both buckets against every URL the database stores. Only runs while `enabled`. */
+export function useStorageReport(enabled: boolean) {
+  return useQuery({
+    queryKey: ['storage-report'],
+    enabled,
+    queryFn: async (): Promise<StorageReport> => {
+      const [references, trackObjects, imageObjects] = await Promise.all([
+        fetchStorageReferences(),
+        listBucketObjects('tracks'),
+        listBucketObjects('label-images'),
+      ]);
+
+      const objects = [...trackObjects, ...imageObjects];
+      const referenced = new Set(references.map((reference) => objectKey(reference.bucket, reference.path)));
+      const stored = new Set(objects.map((object) => objectKey(object.bucket, object.path)));
+      const orphans = objects.filter((object) => !referenced.has(objectKey(object.bucket, object.path)));
+
+      return {
+        objects,
+        orphans,
+        missing: references.filter((reference) => !stored.has(objectKey(reference.bucket, reference.path))),
+        totalBytes: objects.reduce((sum, object) => sum + object.size, 0),
+        orphanBytes: orphans.reduce((sum, object) => sum + object.size, 0),
+      };
+    },
+  });
+}
+
+/**
+ * Deletes orphaned objects. References are re-read first, so anything that gained
+ * a row since the report ran is kept, as are very recent uploads.
+ */
+export function useDeleteOrphans() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (objects: StorageObject[]) => {
+      const references = await fetchStorageReferences();
+      const referenced = new Set(references.map((reference) => objectKey(reference.bucket, reference.path)));
+      const deletable = objects.filter(
+        (object) => !referenced.has(objectKey(object.bucket, object.path)) && !isRecentObject(object)
+      );
+
+      for (const bucket of ['tracks', 'label-images'] as StorageBucket[]) {
+        const paths = deletable.filter((object) => object.bucket === bucket).map((object) => object.path);
+        if (paths.length === 0) continue;
+        const { error } = await supabase.storage.from(bucket).remove(paths);
+        if (error) throw error;
+      }
+
+      return { deleted: deletable.length, kept: objects.length - deletable.length };
+    },
+    onSuccess: ({ deleted, kept }) => {
+      queryClient.invalidateQueries({ queryKey: ['storage-report'] });
+      toast({
+        title: `Deleted ${deleted} file(s)`,
+        description: kept > 0 ? `${kept} file(s) were kept because they are in use or were uploaded recently.` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error deleting files',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Points a reference whose file is missing at an existing object in the same bucket. */
+export function useRelinkStorageReference() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reference, object }: { reference: StorageReference; object: StorageObject }) => {
+      if (reference.bucket !== object.bucket) throw new Error('The file is in a different bucket');
+
+      const { data: { publicUrl } } = supabase.storage
+        .from(object.bucket)
+        .getPublicUrl(object.path);
+
+      const update = () => {
+        switch (reference.kind) {
+          case 'track-audio':
+            return supabase.from('tracks').update({ audio_url: publicUrl }).eq('id', reference.id);
+          case 'track-cover':
+            return supabase.from('tracks').update({ cover_url: publicUrl }).eq('id', reference.id);
+          case 'label-image':
+            // Its sizes still point at the missing files and srcset would prefer them
+            return supabase.from('label_images').update({ image_url: publicUrl, variants: null }).eq('id', reference.id);
+          case 'record-sleeve':
+            return supabase.from('records').update({ sleeve_url: publicUrl }).eq('id', reference.id);
+          case 'record-back-sleeve':
+            return supabase.from('records').update({ back_sleeve_url: publicUrl }).eq('id', reference.id);
+          case 'picture-disc':
+            throw new Error('Pick new picture disc artwork in the record style settings instead');
+          case 'label-variant':
+            throw new Error('Upload the label again to rebuild its sizes');
+        }
+      };
+
+      const { error } = await update();
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['storage-report'] });
+      queryClient.invalidateQueries({ queryKey: ['tracks'] });
+      queryClient.invalidateQueries({ queryKey: ['label-images'] });
+      queryClient.invalidateQueries({ queryKey: ['active-label'] });
+      queryClient.invalidateQueries({ queryKey: ['records'] });
+      toast({ title: 'File re-linked' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error re-linking file',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
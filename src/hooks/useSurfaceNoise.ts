@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { AudioEngine } from '@/utils/audioEngine';
+import {
+  DEFAULT_SURFACE_NOISE,
+  createSurfaceNoise,
+  type SurfaceNoise,
+  type SurfaceNoiseProfile,
+} from '@/utils/surfaceNoise';
+
+interface SurfaceNoiseSettings {
+  enabled: boolean;
+  /** The visitor's own levels on top of the theme's; empty follows the theme. */
+  custom: Partial<SurfaceNoiseProfile>;
+}
+
+const STORAGE_KEY = 'vinyl-player-surface-noise';
+const DEFAULT_SETTINGS: SurfaceNoiseSettings = { enabled: true, custom: {} };
+
+const loadSettings = (): SurfaceNoiseSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch {
+    // Unreadable settings just mean starting from the defaults
+  }
+  return DEFAULT_SETTINGS;
+};
+
+/**
+ * Crackle, hiss, rumble and wow & flutter for the player. Levels follow the
+ * theme until the visitor changes them; visitors can also switch it off.
+ */
+export function useSurfaceNoise(
+  engine: AudioEngine,
+  { active, themeProfile }: { active: boolean; themeProfile?: Partial<SurfaceNoiseProfile> }
+) {
+  const [settings, setSettings] = useState<SurfaceNoiseSettings>(loadSettings);
+  const noiseRef = useRef<SurfaceNoise | null>(null);
+
+  const profile = useMemo<SurfaceNoiseProfile>(
+    () => ({ ...DEFAULT_SURFACE_NOISE, ...themeProfile, ...settings.custom }),
+    [themeProfile, settings.custom]
+  );
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
+  useEffect(() => {
+    const noise = createSurfaceNoise(engine);
+    noise.setProfile(profileRef.current);
+    noiseRef.current = noise;
+    return () => {
+      noiseRef.current = null;
+      noise.dispose();
+    };
+  }, [engine]);
+
+  useEffect(() => {
+    noiseRef.current?.setProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    noiseRef.current?.setActive(active && settings.enabled);
+  }, [active, settings.enabled]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setSettings((current) => ({ ...current, enabled }));
+  }, []);
+
+  const setLevel = useCallback((key: keyof SurfaceNoiseProfile, value: number) => {
+    setSettings((current) => ({ ...current, custom: { ...current.custom, [key]: value } }));
+  }, []);
+
+  const resetLevels = useCallback(() => {
+    setSettings((current) => ({ ...current, custom: {} }));
+  }, []);
+
+  return {
+    enabled: settings.enabled,
+    setEnabled,
+    profile,
+    isCustom: Object.keys(settings.custom).length > 0,
+    setLevel,
+    resetLevels,
+  };
+}
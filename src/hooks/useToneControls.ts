@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AudioEngine } from '@/utils/audioEngine';
+
+export interface ToneLevels {
+  /** 0..1, applied on a squared curve so the knob feels even. */
+  volume: number;
+  /** -1 (left) .. 1 (right). */
+  balance: number;
+  /** Shelf gain in dB. */
+  bass: number;
+  treble: number;
+}
+
+export const DEFAULT_TONE_LEVELS: ToneLevels = { volume: 0.8, balance: 0, bass: 0, treble: 0 };
+
+const STORAGE_KEY = 'vinyl-player-levels';
+const BASS_HZ = 200;
+const TREBLE_HZ = 3500;
+// Smooths knob movement so turning it never clicks
+const SMOOTHING_SECONDS = 0.03;
+
+const loadLevels = (): ToneLevels => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_TONE_LEVELS, ...JSON.parse(saved) };
+  } catch {
+    // Unreadable levels just mean starting from the defaults
+  }
+  return DEFAULT_TONE_LEVELS;
+};
+
+/**
+ * Volume, balance and two-band tone control patched into the engine's effect
+ * chain. The visitor's levels are remembered between visits.
+ */
+export function useToneControls(engine: AudioEngine) {
+  const [levels, setLevels] = useState<ToneLevels>(loadLevels);
+  const nodesRef = useRef<{
+    bass: BiquadFilterNode;
+    treble: BiquadFilterNode;
+    balance: StereoPannerNode;
+    volume: GainNode;
+  } | null>(null);
+
+  const apply = useCallback((next: ToneLevels) => {
+    const nodes = nodesRef.current;
+    if (!nodes) return;
+    const now = nodes.volume.context.currentTime;
+    nodes.bass.gain.setTargetAtTime(next.bass, now, SMOOTHING_SECONDS);
+    nodes.treble.gain.setTargetAtTime(next.treble, now, SMOOTHING_SECONDS);
+    nodes.balance.pan.setTargetAtTime(next.balance, now, SMOOTHING_SECONDS);
+    nodes.volume.gain.setTargetAtTime(next.volume ** 2, now, SMOOTHING_SECONDS);
+  }, []);
+
+  const levelsRef = useRef(levels);
+  levelsRef.current = levels;
+
+  useEffect(() => {
+    const { context } = engine.getGraph();
+    const bass = context.createBiquadFilter();
+    bass.type = 'lowshelf';
+    bass.frequency.value = BASS_HZ;
+    const treble = context.createBiquadFilter();
+    treble.type = 'highshelf';
+    treble.frequency.value = TREBLE_HZ;
+    const balance = context.createStereoPanner();
+    const volume = context.createGain();
+
+    nodesRef.current = { bass, treble, balance, volume };
+    engine.setEffects([bass, treble, balance, volume]);
+    apply(levelsRef.current);
+
+    return () => {
+      nodesRef.current = null;
+    };
+  }, [engine, apply]);
+
+  useEffect(() => {
+    apply(levels);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(levels));
+  }, [levels, apply]);
+
+  const setLevel = useCallback((key: keyof ToneLevels, value: number) => {
+    setLevels((current) => ({ ...current, [key]: value }));
+  }, []);
+
+  return { levels, setLevel };
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useReorderTracks, type Track } from '@/hooks/useTracks';
+
+/** `ids` with the item at `from` moved to `to`. */
+const moveId = (ids: string[], from: number, to: number) => {
+  const next = [...ids];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * Drag-and-drop and keyboard reordering for the admin track table. Tracks move
+ * within their side; use the Side column to move one to the other side.
+ * Rows only become draggable while their handle is held, so the selects and
+ * buttons in a row keep working normally.
+ */
+export function useTrackReorder(tracks: Track[]) {
+  const reorderTracks = useReorderTracks();
+  const [armedId, setArmedId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Read out by a live region after keyboard moves
+  const [announcement, setAnnouncement] = useState('');
+
+  const ids = tracks.map((track) => track.dbId);
+  const indexOf = (id: string) => ids.indexOf(id);
+
+  const positionOnSide = (track: Track, list: string[]) => {
+    const sameSide = list.filter((id) => tracks.find((t) => t.dbId === id)?.side === track.side);
+    return sameSide.indexOf(track.dbId) + 1;
+  };
+
+  const move = (track: Track, to: number) => {
+    // One save at a time; moves made meanwhile are dropped rather than raced
+    if (reorderTracks.isPending) return false;
+    const from = indexOf(track.dbId);
+    if (from === -1 || to === from || to < 0 || to >= tracks.length) return false;
+    if (tracks[to].side !== track.side) return false;
+    const next = moveId(ids, from, to);
+    reorderTracks.mutate(next);
+    setAnnouncement(`${track.title} moved to position ${positionOnSide(track, next)} on side ${track.side}`);
+    return true;
+  };
+
+  const reset = () => {
+    setArmedId(null);
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
+  const getHandleProps = (track: Track) => ({
+    'aria-label': `Reorder ${track.title}. Use the up and down arrow keys to move it.`,
+    onPointerDown: () => setArmedId(track.dbId),
+    onPointerUp: () => setArmedId(null),
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+      e.preventDefault();
+      move(track, indexOf(track.dbId) + (e.key === 'ArrowUp' ? -1 : 1));
+    },
+    // Not `disabled`: that drops focus from the handle and ends keyboard reordering after one move
+    'aria-disabled': reorderTracks.isPending || undefined,
+  });
+
+  const getRowProps = (track: Track) => {
+    const dragged = draggingId ? tracks.find((t) => t.dbId === draggingId) : undefined;
+    const canDrop = dragged !== undefined && dragged.dbId !== track.dbId && dragged.side === track.side;
+
+    return {
+      draggable: armedId === track.dbId,
+      'data-dragging': draggingId === track.dbId || undefined,
+      'data-drop-target': (canDrop && dropTargetId === track.dbId) || undefined,
+      onDragStart: (e: React.DragEvent) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', track.dbId);
+        setDraggingId(track.dbId);
+      },
+      onDragOver: (e: React.DragEvent) => {
+        if (!canDrop) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTargetId(track.dbId);
+      },
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        if (canDrop) move(dragged, indexOf(track.dbId));
+        reset();
+      },
+      onDragEnd: reset,
+    };
+  };
+
+  return { getHandleProps, getRowProps, announcement };
+}
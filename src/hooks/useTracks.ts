@@ -1,22 +1,123 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import type { RecordSpeed } from '@/config/recordSpeeds';
+import {
+  extractTechnicalMetadata,
+  type CoverArt,
+  type TrackTags,
+  type TrackTechnicalMetadata,
+} from '@/utils/audioMetadata';
+import { computeWaveformPeaks } from '@/utils/waveformPeaks';
+import { undoToastAction } from '@/components/UndoToastAction';
+import { moveToTrash, restoreFromTrash } from '@/utils/trash';
+import type { LabelImageVariant } from '@/utils/labelImageProcessing';
+
+export type RecordSide = 'A' | 'B';
+
+export const RECORD_SIDES: RecordSide[] = ['A', 'B'];
 
 export interface DbTrack {
   id: string;
   title: string;
   artist: string;
   audio_url: string;
+  mime_type: string;
   order_index: number;
+  record_id: string | null;
+  label_image_id: string | null;
+  side: RecordSide;
+  rpm: RecordSpeed;
+  waveform_peaks: number[] | null;
+  duration_seconds: number | null;
+  bitrate: number | null;
+  sample_rate: number | null;
+  channels: number | null;
+  file_size: number | null;
+  album: string | null;
+  track_number: number | null;
+  disc_number: number | null;
+  year: number | null;
+  genre: string | null;
+  composer: string | null;
+  credits: string | null;
+  cover_url: string | null;
+  deleted_at: string | null;
   created_at: string;
 }
 
-export interface Track {
+type DbTrackWithLabel = DbTrack & {
+  label_images: { image_url: string; variants: LabelImageVariant[] | null; deleted_at: string | null } | null;
+};
+
+export interface Track extends TrackTags {
   id: number;
   dbId: string;
   title: string;
   artist: string;
   audioUrl: string;
+  mimeType: string;
+  /** Record the track is on; null while unassigned. */
+  recordId: string | null;
+  /** Label for this track alone; null uses its side's, then the record's, then the site-wide active one. */
+  labelImageId: string | null;
+  labelImageUrl: string | null;
+  labelImageVariants: LabelImageVariant[] | null;
+  side: RecordSide;
+  rpm: RecordSpeed;
+  waveformPeaks: number[] | null;
+  durationSeconds: number | null;
+  bitrate: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  fileSize: number | null;
+  coverUrl: string | null;
+}
+
+/** Column values for a track's technical details, ready to insert or update. */
+export const technicalColumns = (technical: TrackTechnicalMetadata) => ({
+  duration_seconds: technical.durationSeconds,
+  bitrate: technical.bitrate,
+  sample_rate: technical.sampleRate,
+  channels: technical.channels,
+  file_size: technical.fileSize,
+});
+
+/** Column values for a track's tags, ready to insert or update. */
+export const tagColumns = (tags: TrackTags) => ({
+  album: tags.album,
+  track_number: tags.trackNumber,
+  disc_number: tags.discNumber,
+  year: tags.year,
+  genre: tags.genre,
+  composer: tags.composer,
+  credits: tags.credits,
+});
+
+/**
+ * Stores cover art next to the label images and returns its public URL.
+ * Covers are a nice-to-have, so a failed upload is logged and gives null.
+ */
+export async function uploadCoverArt(cover: CoverArt | File): Promise<string | null> {
+  const file = cover instanceof File ? cover : new Blob([cover.data], { type: cover.mimeType });
+  const fileExt = file.type.split('/').pop()?.replace('jpeg', 'jpg') || 'jpg';
+  const fileName = `covers/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('label-images')
+    .upload(fileName, file, { contentType: file.type });
+
+  if (error) {
+    console.error('Cover art upload error:', error);
+    return null;
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('label-images')
+    .getPublicUrl(fileName);
+
+  return publicUrl;
 }
 
 export function useTracks() {
@@ -25,38 +126,70 @@ export function useTracks() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('tracks')
-        .select('*')
+        .select('*, label_images(image_url, variants, deleted_at)')
+        .is('deleted_at', null)
+        .order('side')
         .order('order_index');
       
       if (error) throw error;
       
       // Transform to match VinylPlayer interface
-      return (data as DbTrack[]).map((track, index) => ({
+      return (data as unknown as DbTrackWithLabel[]).map((track, index) => ({
         id: index + 1,
         dbId: track.id,
         title: track.title,
         artist: track.artist,
-        audioUrl: track.audio_url
+        audioUrl: track.audio_url,
+        mimeType: track.mime_type,
+        recordId: track.record_id,
+        labelImageId: track.label_image_id,
+        // A label in the Trash falls back like no label at all
+        labelImageUrl: track.label_images && !track.label_images.deleted_at ? track.label_images.image_url : null,
+        labelImageVariants: track.label_images && !track.label_images.deleted_at ? track.label_images.variants : null,
+        side: track.side,
+        rpm: track.rpm,
+        waveformPeaks: track.waveform_peaks,
+        durationSeconds: track.duration_seconds,
+        bitrate: track.bitrate,
+        sampleRate: track.sample_rate,
+        channels: track.channels,
+        fileSize: track.file_size,
+        album: track.album,
+        trackNumber: track.track_number,
+        discNumber: track.disc_number,
+        year: track.year,
+        genre: track.genre,
+        composer: track.composer,
+        credits: track.credits,
+        coverUrl: track.cover_url
       }));
     }
   });
 }
 
+/** Moves a track to the Trash, with an undo in the confirmation toast. */
 export function useDeleteTrack() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (trackId: string) => {
-      const { error } = await supabase
-        .from('tracks')
-        .delete()
-        .eq('id', trackId);
-      
-      if (error) throw error;
+      await moveToTrash([{ kind: 'track', id: trackId }]);
     },
-    onSuccess: () => {
+    onSuccess: (_, trackId) => {
       queryClient.invalidateQueries({ queryKey: ['tracks'] });
-      toast({ title: 'Track deleted successfully' });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast({
+        title: 'Track moved to Trash',
+        action: undoToastAction(async () => {
+          try {
+            await restoreFromTrash([{ kind: 'track', id: trackId }]);
+            queryClient.invalidateQueries({ queryKey: ['tracks'] });
+            queryClient.invalidateQueries({ queryKey: ['trash'] });
+          } catch {
+            toast({ title: 'Error restoring track', variant: 'destructive' });
+          }
+        }),
+      });
     },
     onError: () => {
       toast({ 
@@ -71,10 +204,26 @@ export function useUpdateTrack() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, title, artist }: { id: string; title: string; artist: string }) => {
+    mutationFn: async ({ id, tags, coverUrl, recordId, labelImageId, ...changes }: {
+      id: string;
+      title?: string;
+      artist?: string;
+      side?: RecordSide;
+      rpm?: RecordSpeed;
+      tags?: TrackTags;
+      coverUrl?: string | null;
+      recordId?: string | null;
+      labelImageId?: string | null;
+    }) => {
       const { error } = await supabase
         .from('tracks')
-        .update({ title, artist })
+        .update({
+          ...changes,
+          ...(tags && tagColumns(tags)),
+          ...(coverUrl !== undefined && { cover_url: coverUrl }),
+          ...(recordId !== undefined && { record_id: recordId }),
+          ...(labelImageId !== undefined && { label_image_id: labelImageId }),
+        })
         .eq('id', id);
       
       if (error) throw error;
@@ -91,3 +240,176 @@ export function useUpdateTrack() {
     }
   });
 }
+
+/** Uploads replacement cover art picked by the admin and returns its public URL. */
+export function useUploadCoverArt() {
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const coverUrl = await uploadCoverArt(file);
+      if (!coverUrl) throw new Error('The image could not be stored');
+      return coverUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error uploading cover art',
+        description: error?.message,
+        variant: 'destructive'
+      });
+    }
+  });
+}
+
+/** Sets the cutting speed of every track on a side. */
+export function useSetSideSpeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ side, rpm, recordId }: { side: RecordSide; rpm: RecordSpeed; recordId?: string | null }) => {
+      let query = supabase
+        .from('tracks')
+        .update({ rpm })
+        .eq('side', side);
+      // Scoped to one record when given; null means the unassigned tracks
+      if (recordId !== undefined) {
+        query = recordId === null ? query.is('record_id', null) : query.eq('record_id', recordId);
+      }
+
+      const { error } = await query;
+      if (error) throw error;
+    },
+    onSuccess: (_data, { side }) => {
+      queryClient.invalidateQueries({ queryKey: ['tracks'] });
+      toast({ title: `Side ${side} speed updated` });
+    },
+    onError: () => {
+      toast({
+        title: 'Error updating side speed',
+        variant: 'destructive'
+      });
+    }
+  });
+}
+
+/**
+ * Saves a new play order (track dbIds, first to last) in one call. The list is
+ * reordered straight away and put back if the save fails.
+ */
+export function useReorderTracks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (trackIds: string[]) => {
+      const { error } = await supabase.rpc('reorder_tracks', { track_ids: trackIds });
+      if (error) throw error;
+    },
+    onMutate: async (trackIds) => {
+      await queryClient.cancelQueries({ queryKey: ['tracks'] });
+      const previous = queryClient.getQueryData<Track[]>(['tracks']);
+      if (previous) {
+        // Same rule as the server: listed tracks first, everything else after in its old order
+        const byId = new Map(previous.map((track) => [track.dbId, track]));
+        const listed = new Set(trackIds);
+        const reordered = [
+          ...trackIds.map((id) => byId.get(id)).filter((track): track is Track => track !== undefined),
+          ...previous.filter((track) => !listed.has(track.dbId)),
+        ].map((track, index) => ({ ...track, id: index + 1 }));
+        queryClient.setQueryData(['tracks'], reordered);
+      }
+      return { previous };
+    },
+    onSuccess: () => {
+      toast({ title: 'Track order saved' });
+    },
+    onError: (_error, _trackIds, context) => {
+      if (context?.previous) queryClient.setQueryData(['tracks'], context.previous);
+      toast({
+        title: 'Error saving track order',
+        variant: 'destructive'
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['tracks'] });
+    }
+  });
+}
+
+/** Refetches the track list whenever a track is added, edited or reordered elsewhere. */
+export function useTracksRealtime() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('track-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tracks' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['tracks'] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
+
+/**
+ * Downloads tracks uploaded before their technical details (and waveform) were
+ * recorded and fills them in. Works through the files one at a time.
+ */
+export function useBackfillTrackMetadata() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from('tracks')
+        .select('id, audio_url, mime_type, waveform_peaks')
+        .is('duration_seconds', null)
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      let updated = 0;
+      const failed: string[] = [];
+      for (const track of data) {
+        try {
+          const response = await fetch(track.audio_url);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const file = await response.blob();
+          const technical = await extractTechnicalMetadata(file, track.mime_type);
+          const waveformPeaks = track.waveform_peaks ?? (await computeWaveformPeaks(file));
+
+          const { error: updateError } = await supabase
+            .from('tracks')
+            .update({ ...technicalColumns(technical), waveform_peaks: waveformPeaks })
+            .eq('id', track.id);
+
+          if (updateError) throw updateError;
+          updated++;
+        } catch (trackError) {
+          console.error(`Error backfilling ${track.audio_url}:`, trackError);
+          failed.push(track.id);
+        }
+      }
+      return { updated, failed: failed.length };
+    },
+    onSuccess: ({ updated, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['tracks'] });
+      toast({
+        title: 'Track details updated',
+        description: `Filled in ${updated} track(s)${failed > 0 ? `, ${failed} failed` : ''}`,
+        variant: failed > 0 && updated === 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating track details',
+        description: error?.message,
+        variant: 'destructive'
+      });
+    }
+  });
+}
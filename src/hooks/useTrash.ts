@@ -0,0 +1,180 @@
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  purgeExpiredTrash,
+  purgeTrash,
+  restoreFromTrash,
+  type TrashEntry,
+  type TrashKind,
+} from '@/utils/trash';
+
+export interface TrashedItem extends TrashEntry {
+  name: string;
+  /** Artist for tracks. */
+  detail: string | null;
+  deletedAt: string;
+}
+
+/** Everything in the Trash, most recently deleted first. Admins only; RLS hides it from visitors. */
+export function useTrash() {
+  return useQuery({
+    queryKey: ['trash'],
+    queryFn: async (): Promise<TrashedItem[]> => {
+      const [tracksResult, labelsResult] = await Promise.all([
+        supabase.from('tracks').select('id, title, artist, deleted_at').not('deleted_at', 'is', null),
+        supabase.from('label_images').select('id, name, deleted_at').not('deleted_at', 'is', null),
+      ]);
+
+      if (tracksResult.error) throw tracksResult.error;
+      if (labelsResult.error) throw labelsResult.error;
+
+      const items: TrashedItem[] = [
+        ...tracksResult.data.map((track) => ({
+          kind: 'track' as TrashKind,
+          id: track.id,
+          name: track.title,
+          detail: track.artist,
+          deletedAt: track.deleted_at!,
+        })),
+        ...labelsResult.data.map((label) => ({
+          kind: 'label' as TrashKind,
+          id: label.id,
+          name: label.name,
+          detail: null,
+          deletedAt: label.deleted_at!,
+        })),
+      ];
+      return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    },
+  });
+}
+
+const invalidateTrashed = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['trash'] });
+  queryClient.invalidateQueries({ queryKey: ['tracks'] });
+  queryClient.invalidateQueries({ queryKey: ['label-images'] });
+  queryClient.invalidateQueries({ queryKey: ['active-label'] });
+  queryClient.invalidateQueries({ queryKey: ['records'] });
+  queryClient.invalidateQueries({ queryKey: ['storage-report'] });
+};
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entries: TrashEntry[]) => restoreFromTrash(entries),
+    onSuccess: (_, entries) => {
+      invalidateTrashed(queryClient);
+      toast({ title: entries.length === 1 ? 'Item restored' : `${entries.length} items restored` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error restoring from Trash',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Deletes trashed items and their files for good. */
+export function usePurgeFromTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entries: TrashEntry[]) => purgeTrash(entries),
+    onSuccess: (_, entries) => {
+      invalidateTrashed(queryClient);
+      toast({ title: entries.length === 1 ? 'Item deleted permanently' : `${entries.length} items deleted permanently` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error emptying Trash',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Days a deleted item stays in the Trash. */
+export function useTrashRetention() {
+  return useQuery({
+    queryKey: ['trash-retention'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('player_settings')
+        .select('trash_retention_days')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+    },
+  });
+}
+
+export function useSetTrashRetention() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (trash_retention_days: number) => {
+      const { data: existing, error: readError } = await supabase
+        .from('player_settings')
+        .select('id')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (readError) throw readError;
+
+      if (existing?.id) {
+        const { error } = await supabase
+          .from('player_settings')
+          .update({ trash_retention_days })
+          .eq('id', existing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('player_settings')
+          .insert({ trash_retention_days });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash-retention'] });
+      toast({ title: 'Trash retention updated' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating Trash retention',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Purges items past the retention period when an admin opens the dashboard, in
+ * case the daily server job isn't running.
+ */
+export function usePurgeExpiredTrash(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const hasRun = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || hasRun.current) return;
+    hasRun.current = true;
+
+    purgeExpiredTrash()
+      .then((purged) => {
+        if (purged > 0) invalidateTrashed(queryClient);
+      })
+      .catch((error) => console.error('Could not purge expired Trash:', error));
+  }, [enabled, queryClient]);
+}
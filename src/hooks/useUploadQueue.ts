@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { tagColumns, technicalColumns, uploadCoverArt } from '@/hooks/useTracks';
+import { extractAudioMetadata } from '@/utils/audioMetadata';
+import { sniffAudioFormat } from '@/utils/audioFormats';
+import { resumableUpload } from '@/utils/resumableUpload';
+import { loadStoredUploads, removeStoredUpload, storeUpload } from '@/utils/uploadQueueStore';
+import { computeWaveformPeaks } from '@/utils/waveformPeaks';
+
+export type UploadStatus =
+  | 'queued'
+  | 'preparing'
+  | 'uploading'
+  | 'saving'
+  | 'paused'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  /** Sniffed at enqueue; null for skipped files. */
+  mimeType: string | null;
+  storagePath: string | null;
+  orderIndex: number;
+  /** Record the new track goes on; null leaves it unassigned. */
+  recordId: string | null;
+  status: UploadStatus;
+  uploadedBytes: number;
+  /** Every byte is in storage, so carrying on only needs the track row. */
+  uploaded: boolean;
+  /** Server-side resumable upload, kept so the file can carry on where it stopped. */
+  uploadUrl: string | null;
+  trackTitle: string | null;
+  error: string | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const CONCURRENT_UPLOADS = 3;
+const ACTIVE_STATUSES: UploadStatus[] = ['preparing', 'uploading', 'saving'];
+const FINISHED_STATUSES: UploadStatus[] = ['done', 'cancelled', 'skipped'];
+
+export const isActiveUpload = (item: UploadQueueItem) => ACTIVE_STATUSES.includes(item.status);
+
+/** Whether pausing or cancelling still works. Once saving, the track row is on its way in. */
+export const canInterruptUpload = (item: UploadQueueItem) =>
+  item.status === 'queued' || (isActiveUpload(item) && item.status !== 'saving');
+
+// Unique per attempt, so starting over never collides with bytes already stored
+const createStoragePath = (extension: string) =>
+  `${Date.now()}-${Math.random().toString(36).slice(2)}.${extension}`;
+
+// Only these changes are worth writing to IndexedDB; progress is re-read from the server
+const persistedState = (item: UploadQueueItem) =>
+  `${item.status}|${item.uploaded}|${item.uploadUrl}|${item.trackTitle}`;
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Downloads a CSV of every file in the queue with its outcome. */
+export function downloadUploadReport(items: UploadQueueItem[]) {
+  const rows = [
+    ['File', 'Size (bytes)', 'Status', 'Track', 'Error', 'Seconds'],
+    ...items.map((item) => [
+      item.file.name,
+      item.file.size,
+      item.status,
+      item.trackTitle,
+      item.error,
+      item.startedAt && item.finishedAt ? Math.round((item.finishedAt - item.startedAt) / 1000) : null,
+    ]),
+  ];
+  const csv = rows.map((row) => row.map(csvCell).join(',')).join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `upload-report-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Bulk upload manager: a few files at a time, each resumable, with pause, cancel
+ * and retry per file. The queue lives in IndexedDB, so a reload leaves unfinished
+ * files paused rather than lost.
+ */
+export function useUploadQueue({ userId }: { userId?: string }) {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [restored, setRestored] = useState(false);
+  const controllers = useRef(new Map<string, AbortController>());
+  const persisted = useRef(new Map<string, string>());
+
+  const update = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  // Anything that was mid-flight when the page went away waits for the admin to resume it
+  useEffect(() => {
+    loadStoredUploads<UploadQueueItem>()
+      .then((stored) => {
+        const interrupted = stored
+          .sort((a, b) => a.orderIndex - b.orderIndex)
+          .map((item) => ({
+            ...item,
+            uploaded: item.uploaded ?? false,
+            status: item.status === 'queued' || ACTIVE_STATUSES.includes(item.status) ? 'paused' : item.status,
+          }) as UploadQueueItem);
+        interrupted.forEach((item) => persisted.current.set(item.id, persistedState(item)));
+        setItems((current) => [...interrupted, ...current]);
+      })
+      .catch((error) => console.error('Could not restore the upload queue:', error))
+      .finally(() => setRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+    const ids = new Set(items.map((item) => item.id));
+    items.forEach((item) => {
+      const state = persistedState(item);
+      if (persisted.current.get(item.id) === state) return;
+      persisted.current.set(item.id, state);
+      const write = FINISHED_STATUSES.includes(item.status) ? removeStoredUpload(item.id) : storeUpload(item);
+      write.catch((error) => console.error('Could not save the upload queue:', error));
+    });
+    persisted.current.forEach((_, id) => {
+      if (ids.has(id)) return;
+      persisted.current.delete(id);
+      removeStoredUpload(id).catch((error) => console.error('Could not save the upload queue:', error));
+    });
+  }, [items, restored]);
+
+  const run = useCallback(async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    const { signal } = controller;
+
+    try {
+      update(item.id, { status: 'preparing', error: null, startedAt: item.startedAt ?? Date.now() });
+      const mimeType = item.mimeType!;
+      const metadata = await extractAudioMetadata(item.file, mimeType);
+      const waveformPeaks = await computeWaveformPeaks(item.file);
+      if (signal.aborted) return;
+
+      if (!item.uploaded) {
+        update(item.id, { status: 'uploading', trackTitle: metadata.title });
+        await resumableUpload({
+          bucket: 'tracks',
+          path: item.storagePath!,
+          file: item.file,
+          contentType: mimeType,
+          // The path is this file's alone, so overwriting only ever replaces its own bytes
+          upsert: true,
+          uploadUrl: item.uploadUrl,
+          onUploadUrl: (uploadUrl) => update(item.id, { uploadUrl }),
+          onProgress: (uploadedBytes) => update(item.id, { uploadedBytes }),
+          signal,
+        });
+      }
+
+      update(item.id, { status: 'saving', uploaded: true, uploadedBytes: item.file.size, trackTitle: metadata.title });
+      const { data: { publicUrl } } = supabase.storage
+        .from('tracks')
+        .getPublicUrl(item.storagePath!);
+
+      // The row may have gone in before the page went away, so never add it twice
+      const { data: existing, error: existingError } = await supabase
+        .from('tracks')
+        .select('id')
+        .eq('audio_url', publicUrl)
+        .limit(1);
+      if (existingError) throw existingError;
+
+      if (existing.length === 0) {
+        const coverUrl = metadata.cover ? await uploadCoverArt(metadata.cover) : null;
+        if (signal.aborted) return;
+
+        const { error: insertError } = await supabase
+          .from('tracks')
+          .insert({
+            title: metadata.title,
+            artist: metadata.artist,
+            audio_url: publicUrl,
+            mime_type: mimeType,
+            waveform_peaks: waveformPeaks,
+            ...technicalColumns(metadata.technical),
+            ...tagColumns(metadata.tags),
+            cover_url: coverUrl,
+            order_index: item.orderIndex,
+            record_id: item.recordId ?? null,
+            user_id: userId,
+          });
+
+        if (insertError) throw insertError;
+      }
+
+      update(item.id, { status: 'done', uploadUrl: null, finishedAt: Date.now() });
+      queryClient.invalidateQueries({ queryKey: ['tracks'] });
+    } catch (error) {
+      // Paused or cancelled: the status was set by whoever aborted
+      if (signal.aborted) return;
+      console.error(`Error uploading ${item.file.name}:`, error);
+      update(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed',
+        finishedAt: Date.now(),
+      });
+    } finally {
+      // A paused file may already have been resumed with a new controller
+      if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+    }
+  }, [update, queryClient, userId]);
+
+  // Start queued files while there's room. A queued file with a live controller has
+  // already been started and is waiting for its status update to land.
+  useEffect(() => {
+    const isStarted = (id: string) => controllers.current.get(id)?.signal.aborted === false;
+    const active = items.filter(isActiveUpload).length;
+    items
+      .filter((item) => item.status === 'queued' && !isStarted(item.id))
+      .slice(0, Math.max(0, CONCURRENT_UPLOADS - active))
+      .forEach((item) => {
+        run(item);
+      });
+  }, [items, run]);
+
+  // One summary when a batch finishes
+  const wasBusy = useRef(false);
+  useEffect(() => {
+    const busy = items.some((item) => item.status === 'queued' || isActiveUpload(item));
+    if (wasBusy.current && !busy) {
+      const uploaded = items.filter((item) => item.status === 'done').length;
+      const failed = items.filter((item) => item.status === 'failed').length;
+      toast({
+        title: failed > 0 ? 'Uploads finished with errors' : 'Upload complete',
+        description: `${uploaded} uploaded${failed > 0 ? `, ${failed} failed` : ''}. Download the report for details.`,
+        variant: failed > 0 && uploaded === 0 ? 'destructive' : 'default',
+      });
+    }
+    wasBusy.current = busy;
+  }, [items]);
+
+  /** Sniffs each file and queues the audio ones in name order after the existing tracks. */
+  const enqueue = useCallback(async (files: File[], recordId: string | null = null) => {
+    const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name));
+    const formats = await Promise.all(
+      sorted.map((file) => (file.size > 0 && file.size <= MAX_UPLOAD_BYTES ? sniffAudioFormat(file) : null))
+    );
+
+    const { data: existingTracks } = await supabase
+      .from('tracks')
+      .select('order_index')
+      .order('order_index', { ascending: false })
+      .limit(1);
+    const queuedMax = Math.max(-1, ...items.map((item) => item.orderIndex));
+    let nextOrderIndex = Math.max(
+      existingTracks && existingTracks.length > 0 ? existingTracks[0].order_index + 1 : 0,
+      queuedMax + 1
+    );
+
+    const added = sorted.map((file, index): UploadQueueItem => {
+      const format = formats[index];
+      return {
+        id: crypto.randomUUID(),
+        file,
+        mimeType: format?.mimeType ?? null,
+        storagePath: format ? createStoragePath(format.extension) : null,
+        orderIndex: format ? nextOrderIndex++ : -1,
+        recordId,
+        status: format ? 'queued' : 'skipped',
+        uploadedBytes: 0,
+        uploaded: false,
+        uploadUrl: null,
+        trackTitle: null,
+        error: format ? null : 'Not a supported audio file, empty, or over 50MB',
+        startedAt: null,
+        finishedAt: null,
+      };
+    });
+    setItems((current) => [...current, ...added]);
+    const queued = added.filter((item) => item.status === 'queued').length;
+    return { queued, skipped: added.length - queued };
+  }, [items]);
+
+  const pause = useCallback((id: string) => {
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item || !canInterruptUpload(item)) return;
+    update(id, { status: 'paused' });
+    controllers.current.get(id)?.abort();
+  }, [items, update]);
+
+  const resume = useCallback((id: string) => {
+    update(id, { status: 'queued' });
+  }, [update]);
+
+  const resumeAll = useCallback(() => {
+    setItems((current) => current.map((item) => (item.status === 'paused' ? { ...item, status: 'queued' } : item)));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item || !(canInterruptUpload(item) || item.status === 'paused' || item.status === 'failed')) return;
+    update(id, { status: 'cancelled', finishedAt: Date.now() });
+    controllers.current.get(id)?.abort();
+  }, [items, update]);
+
+  const retry = useCallback((id: string) => {
+    setItems((current) =>
+      current.map((item) => {
+        if (item.id !== id) return item;
+        // A cancelled file starts over; a failed one picks up where the server got to,
+        // which after a failed save is straight at the track row
+        const restart = item.status === 'cancelled';
+        return {
+          ...item,
+          status: 'queued',
+          error: null,
+          finishedAt: null,
+          uploadUrl: restart ? null : item.uploadUrl,
+          storagePath: restart && item.storagePath
+            ? createStoragePath(item.storagePath.split('.').pop() ?? '')
+            : item.storagePath,
+          uploadedBytes: restart ? 0 : item.uploadedBytes,
+          uploaded: restart ? false : item.uploaded,
+        };
+      })
+    );
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems((current) => current.filter((item) => !FINISHED_STATUSES.includes(item.status)));
+  }, []);
+
+  return { items, enqueue, pause, resume, resumeAll, cancel, retry, clearFinished };
+}
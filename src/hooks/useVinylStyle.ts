@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import type { VinylStyle } from '@/config/vinylStyles';
+
+/** Reads the site-wide record style; null means "use the theme's default". */
+export function useVinylStyle() {
+  return useQuery({
+    queryKey: ['vinyl-style'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('player_settings')
+        .select('vinyl_style')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.vinyl_style ?? null) as unknown as VinylStyle | null;
+    },
+  });
+}
+
+/** Admin-only write of the record style. Pass null to go back to the theme's default. */
+export function useSetVinylStyle() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (style: VinylStyle | null) => {
+      const vinyl_style = style as unknown as Json;
+      const { data: existing, error: readError } = await supabase
+        .from('player_settings')
+        .select('id')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (readError) throw readError;
+
+      if (existing?.id) {
+        const { error } = await supabase
+          .from('player_settings')
+          .update({ vinyl_style })
+          .eq('id', existing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('player_settings')
+          .insert({ vinyl_style });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vinyl-style'] });
+      toast({
+        title: 'Record style applied',
+        description: 'All visitors now see this record.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating the record style',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Uploads picture-disc artwork next to the label images and returns its public URL. */
+export function useUploadPictureDiscImage() {
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const fileExt = file.name.split('.').pop();
+      const fileName = `picture-discs/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('label-images')
+        .upload(fileName, file);
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('label-images')
+        .getPublicUrl(fileName);
+
+      return publicUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error uploading picture disc artwork',
+        description: error?.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -17,30 +17,36 @@ export type Database = {
       label_images: {
         Row: {
           created_at: string | null
+          deleted_at: string | null
           file_size: number | null
           id: string
           image_url: string
           is_active: boolean | null
           name: string
           uploaded_by: string | null
+          variants: Json | null
         }
         Insert: {
           created_at?: string | null
+          deleted_at?: string | null
           file_size?: number | null
           id?: string
           image_url: string
           is_active?: boolean | null
           name: string
           uploaded_by?: string | null
+          variants?: Json | null
         }
         Update: {
           created_at?: string | null
+          deleted_at?: string | null
           file_size?: number | null
           id?: string
           image_url?: string
           is_active?: boolean | null
           name?: string
           uploaded_by?: string | null
+          variants?: Json | null
         }
         Relationships: []
       }
@@ -49,51 +55,215 @@ export type Database = {
           active_theme: string
           created_at: string
           id: string
+          trash_retention_days: number
           updated_at: string
+          vinyl_style: Json | null
         }
         Insert: {
           active_theme?: string
           created_at?: string
           id?: string
+          trash_retention_days?: number
           updated_at?: string
+          vinyl_style?: Json | null
         }
         Update: {
           active_theme?: string
           created_at?: string
           id?: string
+          trash_retention_days?: number
           updated_at?: string
+          vinyl_style?: Json | null
         }
         Relationships: []
       }
+      records: {
+        Row: {
+          artist: string
+          back_sleeve_url: string | null
+          created_at: string
+          id: string
+          label_image_id: string | null
+          order_index: number
+          sleeve_url: string | null
+          title: string
+          updated_at: string
+          vinyl_style: Json | null
+        }
+        Insert: {
+          artist?: string
+          back_sleeve_url?: string | null
+          created_at?: string
+          id?: string
+          label_image_id?: string | null
+          order_index?: number
+          sleeve_url?: string | null
+          title: string
+          updated_at?: string
+          vinyl_style?: Json | null
+        }
+        Update: {
+          artist?: string
+          back_sleeve_url?: string | null
+          created_at?: string
+          id?: string
+          label_image_id?: string | null
+          order_index?: number
+          sleeve_url?: string | null
+          title?: string
+          updated_at?: string
+          vinyl_style?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "records_label_image_id_fkey"
+            columns: ["label_image_id"]
+            isOneToOne: false
+            referencedRelation: "label_images"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      side_labels: {
+        Row: {
+          created_at: string
+          label_image_id: string
+          record_id: string
+          side: string
+        }
+        Insert: {
+          created_at?: string
+          label_image_id: string
+          record_id: string
+          side: string
+        }
+        Update: {
+          created_at?: string
+          label_image_id?: string
+          record_id?: string
+          side?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "side_labels_label_image_id_fkey"
+            columns: ["label_image_id"]
+            isOneToOne: false
+            referencedRelation: "label_images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "side_labels_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tracks: {
         Row: {
+          album: string | null
           artist: string
           audio_url: string
+          bitrate: number | null
+          channels: number | null
+          composer: string | null
+          cover_url: string | null
           created_at: string | null
+          credits: string | null
+          deleted_at: string | null
+          disc_number: number | null
+          duration_seconds: number | null
+          file_size: number | null
+          genre: string | null
           id: string
+          label_image_id: string | null
+          mime_type: string
           order_index: number
+          record_id: string | null
+          rpm: number
+          sample_rate: number | null
+          side: string
           title: string
+          track_number: number | null
           user_id: string | null
+          waveform_peaks: number[] | null
+          year: number | null
         }
         Insert: {
+          album?: string | null
           artist: string
           audio_url: string
+          bitrate?: number | null
+          channels?: number | null
+          composer?: string | null
+          cover_url?: string | null
           created_at?: string | null
+          credits?: string | null
+          deleted_at?: string | null
+          disc_number?: number | null
+          duration_seconds?: number | null
+          file_size?: number | null
+          genre?: string | null
           id?: string
+          label_image_id?: string | null
+          mime_type?: string
           order_index?: number
+          record_id?: string | null
+          rpm?: number
+          sample_rate?: number | null
+          side?: string
           title: string
+          track_number?: number | null
           user_id?: string | null
+          waveform_peaks?: number[] | null
+          year?: number | null
         }
         Update: {
+          album?: string | null
           artist?: string
           audio_url?: string
+          bitrate?: number | null
+          channels?: number | null
+          composer?: string | null
+          cover_url?: string | null
           created_at?: string | null
+          credits?: string | null
+          deleted_at?: string | null
+          disc_number?: number | null
+          duration_seconds?: number | null
+          file_size?: number | null
+          genre?: string | null
           id?: string
+          label_image_id?: string | null
+          mime_type?: string
           order_index?: number
+          record_id?: string | null
+          rpm?: number
+          sample_rate?: number | null
+          side?: string
           title?: string
+          track_number?: number | null
           user_id?: string | null
+          waveform_peaks?: number[] | null
+          year?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tracks_label_image_id_fkey"
+            columns: ["label_image_id"]
+            isOneToOne: false
+            referencedRelation: "label_images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracks_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "records"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -125,6 +295,19 @@ export type Database = {
         }
         Returns: boolean
       }
+      purge_expired_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          bucket: string
+          url: string
+        }[]
+      }
+      reorder_tracks: {
+        Args: {
+          track_ids: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
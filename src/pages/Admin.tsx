@@ -5,18 +5,36 @@ import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
-import { useTracks, useDeleteTrack, useUpdateTrack } from '@/hooks/useTracks';
+import { useTracks, useDeleteTrack, useUpdateTrack, useSetSideSpeed, useBackfillTrackMetadata, useUploadCoverArt, technicalColumns, tagColumns, uploadCoverArt, RECORD_SIDES, type RecordSide, type Track } from '@/hooks/useTracks';
+import { RECORD_SPEEDS, type RecordSpeed } from '@/config/recordSpeeds';
+import { useUploadQueue, isActiveUpload } from '@/hooks/useUploadQueue';
+import { usePurgeExpiredTrash } from '@/hooks/useTrash';
+import { useTrackReorder } from '@/hooks/useTrackReorder';
+import { useRecords, useSetSideLabel } from '@/hooks/useRecords';
 import { useLabelImages, useUploadLabelImage, useSetActiveLabelImage, useDeleteLabelImage } from '@/hooks/useLabelImages';
-import { Pencil, Trash2, LogOut, Plus, FolderUp, Upload, Image as ImageIcon, Check, Key, Lock, AlertTriangle, Copy } from 'lucide-react';
-import { extractMp3Metadata } from '@/utils/mp3Metadata';
+import { Pencil, Trash2, LogOut, Plus, FolderUp, Upload, Image as ImageIcon, Check, Key, Lock, AlertTriangle, Copy, RefreshCw, Loader2, GripVertical } from 'lucide-react';
+import { extractAudioMetadata, EMPTY_TRACK_TAGS, type TrackTags } from '@/utils/audioMetadata';
+import { AUDIO_FILE_ACCEPT, audioFormatLabel, canPlayAudioType, sniffAudioFormat } from '@/utils/audioFormats';
+import { computeWaveformPeaks } from '@/utils/waveformPeaks';
 import { checkStorageBuckets, STORAGE_BUCKETS_MIGRATION, type StorageBucketsHealth } from '@/utils/backendHealth';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import PlayerThemePicker from '@/components/admin/PlayerThemePicker';
+import VinylStylePicker from '@/components/admin/VinylStylePicker';
+import UploadQueuePanel from '@/components/admin/UploadQueuePanel';
+import StorageReconciliation from '@/components/admin/StorageReconciliation';
+import TrashBin from '@/components/admin/TrashBin';
+import RecordsManager from '@/components/admin/RecordsManager';
+import LabelDesigner from '@/components/admin/LabelDesigner';
+import LabelCropper from '@/components/admin/LabelCropper';
+import { loadImage } from '@/utils/labelDesign';
+import { DEFAULT_LABEL_CROP, labelThumbnailUrl, renderLabelVariants, type LabelCrop } from '@/utils/labelImageProcessing';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +54,32 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 
+// Track table filters besides a record id
+const ALL_RECORDS = 'all';
+const UNASSIGNED = 'unassigned';
+
+// Label picker value for "no label of its own"
+const RECORD_LABEL = 'record';
+
+const toOptionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+// e.g. "MP3 · 320 kbps · 44.1 kHz · Stereo"
+const formatAudioDetails = ({ mimeType, bitrate, sampleRate, channels }: Track) =>
+  [
+    audioFormatLabel(mimeType),
+    bitrate && `${Math.round(bitrate / 1000)} kbps`,
+    sampleRate && `${sampleRate / 1000} kHz`,
+    channels && (channels === 1 ? 'Mono' : channels === 2 ? 'Stereo' : `${channels} ch`),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
 export default function Admin() {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
@@ -44,6 +88,38 @@ export default function Admin() {
   const { data: tracks, isLoading: tracksLoading } = useTracks();
   const deleteTrack = useDeleteTrack();
   const updateTrack = useUpdateTrack();
+  const setSideSpeed = useSetSideSpeed();
+  const setSideLabel = useSetSideLabel();
+  const backfillTrackMetadata = useBackfillTrackMetadata();
+  const uploadCover = useUploadCoverArt();
+  const missingDetailsCount = tracks?.filter((track) => track.durationSeconds === null).length ?? 0;
+  const uploadQueue = useUploadQueue({ userId: user?.id });
+  usePurgeExpiredTrash(role === 'admin');
+  const { data: records } = useRecords();
+  // Which record's tracks the table shows: a record id, ALL_RECORDS or UNASSIGNED
+  const [recordFilter, setRecordFilter] = useState<string | null>(null);
+  const visibleTracks = (tracks ?? []).filter((track) =>
+    recordFilter === ALL_RECORDS || recordFilter === null
+      ? true
+      : recordFilter === UNASSIGNED
+        ? track.recordId === null
+        : track.recordId === recordFilter
+  );
+  // New uploads go on the record being shown
+  const targetRecordId = recordFilter === ALL_RECORDS || recordFilter === UNASSIGNED ? null : recordFilter;
+  const shownRecord = records?.find((record) => record.id === targetRecordId) ?? null;
+  const canReorder = recordFilter !== ALL_RECORDS;
+  const trackReorder = useTrackReorder(visibleTracks);
+
+  // Start on the first record, and fall back to all tracks if the shown record is deleted
+  useEffect(() => {
+    if (!records) return;
+    const isRecord = records.some((record) => record.id === recordFilter);
+    if (recordFilter === null || (!isRecord && recordFilter !== ALL_RECORDS && recordFilter !== UNASSIGNED)) {
+      setRecordFilter(records[0]?.id ?? ALL_RECORDS);
+    }
+  }, [records, recordFilter]);
+  const pendingUploadCount = uploadQueue.items.filter((item) => item.status === 'queued' || isActiveUpload(item)).length;
   
   const { data: labelImages, isLoading: labelsLoading } = useLabelImages();
   const uploadLabelImage = useUploadLabelImage();
@@ -61,20 +137,43 @@ export default function Admin() {
   const [selectedTrack, setSelectedTrack] = useState<any>(null);
   const [editTitle, setEditTitle] = useState('');
   const [editArtist, setEditArtist] = useState('');
+  const [editSide, setEditSide] = useState<RecordSide>('A');
+  const [editRecordId, setEditRecordId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState<TrackTags>(EMPTY_TRACK_TAGS);
+  const [editCoverUrl, setEditCoverUrl] = useState<string | null>(null);
   const [newTitle, setNewTitle] = useState('');
   const [newArtist, setNewArtist] = useState('');
+  const [newSide, setNewSide] = useState<RecordSide>('A');
   const [uploadingFile, setUploadingFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState({ current: 0, total: 0 });
   const folderInputRef = useRef<HTMLInputElement>(null);
   const multipleFilesInputRef = useRef<HTMLInputElement>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
   
   const [labelUploadDialogOpen, setLabelUploadDialogOpen] = useState(false);
   const [labelDeleteDialogOpen, setLabelDeleteDialogOpen] = useState(false);
   const [selectedLabel, setSelectedLabel] = useState<any>(null);
   const [uploadingLabel, setUploadingLabel] = useState<File | null>(null);
   const [uploadingLabelImage, setUploadingLabelImage] = useState(false);
+  const [labelSource, setLabelSource] = useState<HTMLImageElement | null>(null);
+  const [labelCrop, setLabelCrop] = useState<LabelCrop>(DEFAULT_LABEL_CROP);
+
+  // Decode the picked label so it can be cropped; each new file starts uncropped
+  useEffect(() => {
+    setLabelSource(null);
+    setLabelCrop(DEFAULT_LABEL_CROP);
+    if (!uploadingLabel) return;
+
+    let cancelled = false;
+    const url = URL.createObjectURL(uploadingLabel);
+    loadImage(url)
+      .then((image) => !cancelled && setLabelSource(image))
+      .catch((error) => console.error('Label image failed to load:', error))
+      .finally(() => URL.revokeObjectURL(url));
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadingLabel]);
   
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -198,12 +297,23 @@ export default function Admin() {
         id: selectedTrack.dbId,
         title: editTitle,
         artist: editArtist,
+        side: editSide,
+        recordId: editRecordId,
+        tags: editTags,
+        coverUrl: editCoverUrl,
       });
       setEditDialogOpen(false);
       setSelectedTrack(null);
     }
   };
 
+  const handleCoverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    uploadCover.mutate(file, { onSuccess: setEditCoverUrl });
+  };
+
   const handleAddTrack = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!uploadingFile || !newTitle || !newArtist) return;
@@ -218,26 +328,6 @@ export default function Admin() {
       return;
     }
 
-    // Validate file extension
-    if (!uploadingFile.name.toLowerCase().endsWith('.mp3')) {
-      toast({
-        title: 'Invalid file',
-        description: 'Please upload an MP3 file',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    // Validate MIME type (server-side protection)
-    if (uploadingFile.type !== 'audio/mpeg' && uploadingFile.type !== 'audio/mp3') {
-      toast({
-        title: 'Invalid file type',
-        description: 'Only MP3 audio files are allowed',
-        variant: 'destructive',
-      });
-      return;
-    }
-
     // Validate file size (50MB limit)
     if (uploadingFile.size > 50 * 1024 * 1024) {
       toast({
@@ -258,14 +348,28 @@ export default function Admin() {
       return;
     }
 
+    // Validate the format from the file's header; its name and MIME type can't be trusted
+    const format = await sniffAudioFormat(uploadingFile);
+    if (!format) {
+      toast({
+        title: 'Invalid file type',
+        description: 'Only MP3, FLAC, WAV, AIFF, Ogg/Opus and AAC/M4A audio files are allowed',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setUploading(true);
     try {
+      // Decode once here so visitors never have to download the whole file for the waveform
+      const waveformPeaks = await computeWaveformPeaks(uploadingFile);
+      const metadata = await extractAudioMetadata(uploadingFile, format.mimeType);
+
       // Upload file to storage
-      const fileExt = uploadingFile.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
+      const fileName = `${Date.now()}.${format.extension}`;
       const { error: uploadError } = await supabase.storage
         .from('tracks')
-        .upload(fileName, uploadingFile);
+        .upload(fileName, uploadingFile, { contentType: format.mimeType });
 
       if (uploadError) {
         console.error('Track upload error:', uploadError);
@@ -284,14 +388,23 @@ export default function Admin() {
         .from('tracks')
         .getPublicUrl(fileName);
 
+      const coverUrl = metadata.cover ? await uploadCoverArt(metadata.cover) : null;
+
       // Insert track record
       const { error: insertError } = await supabase
         .from('tracks')
         .insert({
           title: newTitle,
           artist: newArtist,
+          side: newSide,
           audio_url: publicUrl,
+          mime_type: format.mimeType,
+          waveform_peaks: waveformPeaks,
+          ...technicalColumns(metadata.technical),
+          ...tagColumns(metadata.tags),
+          cover_url: coverUrl,
           user_id: user?.id,
+          record_id: targetRecordId,
           order_index: (tracks?.length || 0) + 1,
         });
 
@@ -302,6 +415,7 @@ export default function Admin() {
       setAddDialogOpen(false);
       setNewTitle('');
       setNewArtist('');
+      setNewSide('A');
       setUploadingFile(null);
     } catch (error: any) {
       toast({
@@ -330,111 +444,8 @@ export default function Admin() {
       return;
     }
 
-    // Filter and validate files with comprehensive checks
-    const mp3Files = Array.from(files).filter((file) => {
-      const isValidExtension = file.name.toLowerCase().endsWith('.mp3');
-      const isValidMimeType = file.type === 'audio/mpeg' || file.type === 'audio/mp3';
-      const isValidSize = file.size > 0 && file.size <= 50 * 1024 * 1024;
-      return isValidExtension && isValidMimeType && isValidSize;
-    });
-
-    if (mp3Files.length === 0) {
-      toast({
-        title: 'No valid files',
-        description: 'No valid MP3 files found. Files must be audio/mpeg format and under 50MB.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    // Warn if some files were filtered out
-    const rejectedCount = files.length - mp3Files.length;
-    if (rejectedCount > 0) {
-      toast({
-        title: 'Some files rejected',
-        description: `${rejectedCount} file(s) rejected due to invalid format, type, or size`,
-        variant: 'default',
-      });
-    }
-
-    setIsUploading(true);
-    setUploadProgress({ current: 0, total: mp3Files.length });
-
-    // Sort files alphabetically
-    mp3Files.sort((a, b) => a.name.localeCompare(b.name));
-
-    // Get current max order_index
-    const { data: existingTracks } = await supabase
-      .from('tracks')
-      .select('order_index')
-      .order('order_index', { ascending: false })
-      .limit(1);
-
-    let nextOrderIndex = existingTracks && existingTracks.length > 0 
-      ? existingTracks[0].order_index + 1 
-      : 0;
-
-    const failedFiles: string[] = [];
-    let successCount = 0;
-
-    for (let i = 0; i < mp3Files.length; i++) {
-      const file = mp3Files[i];
-      setUploadProgress({ current: i + 1, total: mp3Files.length });
-
-      try {
-        // Extract metadata
-        const metadata = await extractMp3Metadata(file);
-
-        // Upload file to storage
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${Date.now()}-${Math.random()}.${fileExt}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from('tracks')
-          .upload(fileName, file);
-
-        if (uploadError) {
-          console.error(`Track upload error for ${file.name}:`, uploadError);
-          
-          // Detect specific error types
-          if (uploadError.message?.toLowerCase().includes('bucket') && 
-              uploadError.message?.toLowerCase().includes('not found')) {
-            throw new Error('Storage bucket not found');
-          }
-          
-          throw uploadError;
-        }
-
-        // Get public URL
-        const { data: { publicUrl } } = supabase.storage
-          .from('tracks')
-          .getPublicUrl(fileName);
-
-        // Insert into database
-        const { error: insertError } = await supabase
-          .from('tracks')
-          .insert({
-            title: metadata.title,
-            artist: metadata.artist,
-            audio_url: publicUrl,
-            order_index: nextOrderIndex++,
-            user_id: user?.id,
-          });
-
-        if (insertError) throw insertError;
-
-        successCount++;
-      } catch (error) {
-        console.error(`Error uploading ${file.name}:`, error);
-        failedFiles.push(file.name);
-      }
-    }
-
-    setIsUploading(false);
-    setUploadProgress({ current: 0, total: 0 });
-
-    // Refresh the track list
-    await queryClient.invalidateQueries({ queryKey: ['tracks'] });
+    // Folders carry cover art, cue sheets... the queue sniffs each file and skips those
+    const { queued, skipped } = await uploadQueue.enqueue(Array.from(files), targetRecordId);
 
     // Reset file inputs
     if (folderInputRef.current) {
@@ -444,19 +455,17 @@ export default function Admin() {
       multipleFilesInputRef.current.value = '';
     }
 
-    // Show results
-    if (successCount > 0) {
+    if (queued === 0) {
       toast({
-        title: 'Upload complete',
-        description: `Successfully uploaded ${successCount} of ${mp3Files.length} tracks${
-          failedFiles.length > 0 ? `. Failed: ${failedFiles.slice(0, 3).join(', ')}${failedFiles.length > 3 ? '...' : ''}` : ''
-        }`,
+        title: 'No valid files',
+        description: 'No supported audio files found. Files must be MP3, FLAC, WAV, AIFF, Ogg/Opus or AAC/M4A and under 50MB.',
+        variant: 'destructive',
       });
-    } else {
+    } else if (skipped > 0) {
       toast({
-        title: 'Upload failed',
-        description: 'All files failed to upload. Please try again.',
-        variant: 'destructive',
+        title: 'Some files skipped',
+        description: `${skipped} file(s) skipped due to invalid format, type, or size`,
+        variant: 'default',
       });
     }
   };
@@ -506,9 +515,21 @@ export default function Admin() {
       return;
     }
 
+    if (!labelSource) {
+      toast({
+        title: 'Could not read image',
+        description: 'The file could not be opened as an image',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setUploadingLabelImage(true);
     try {
-      await uploadLabelImage.mutateAsync(uploadingLabel);
+      await uploadLabelImage.mutateAsync({
+        name: uploadingLabel.name.replace(/\.[^.]+$/, ''),
+        variants: await renderLabelVariants(labelSource, labelCrop),
+      });
       setLabelUploadDialogOpen(false);
       setUploadingLabel(null);
     } catch (error) {
@@ -524,10 +545,7 @@ export default function Admin() {
 
   const handleDeleteLabel = async () => {
     if (selectedLabel) {
-      await deleteLabelImage.mutateAsync({
-        labelId: selectedLabel.id,
-        imageUrl: selectedLabel.image_url,
-      });
+      await deleteLabelImage.mutateAsync(selectedLabel.id);
       setLabelDeleteDialogOpen(false);
       setSelectedLabel(null);
     }
@@ -567,6 +585,21 @@ export default function Admin() {
   if (roleLoading) return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
   if (role !== 'admin') return null;
 
+  // Shared by the side and per-track label pickers; `fallback` names what no label of its own means
+  const labelOptions = (fallback: string) => (
+    <SelectContent>
+      <SelectItem value={RECORD_LABEL}>{fallback}</SelectItem>
+      {labelImages?.map((label) => (
+        <SelectItem key={label.id} value={label.id}>
+          <span className="flex items-center gap-2">
+            <img src={labelThumbnailUrl(label.image_url, label.variants)} alt="" className="h-5 w-5 rounded-full object-cover" />
+            {label.name}
+          </span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 p-8">
       {/* Password change dialog - non-dismissible when required */}
@@ -616,7 +649,7 @@ export default function Admin() {
                 <ul className="list-disc list-inside ml-2 space-y-1">
                   {!storageHealth.tracks.exists && (
                     <li>
-                      <span className="font-mono">tracks</span> - Required for MP3 uploads
+                      <span className="font-mono">tracks</span> - Required for track uploads
                       {storageHealth.tracks.error && (
                         <span className="text-xs ml-2">({storageHealth.tracks.error})</span>
                       )}
@@ -680,28 +713,26 @@ export default function Admin() {
             <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
               <Button 
                 onClick={() => folderInputRef.current?.click()}
-                disabled={isUploading}
                 variant="secondary"
               >
                 <FolderUp className="mr-2 h-4 w-4" />
-                {isUploading ? `Uploading ${uploadProgress.current}/${uploadProgress.total}...` : 'Bulk Upload Folder'}
+                {pendingUploadCount > 0 ? `Uploading ${pendingUploadCount} file(s)...` : 'Bulk Upload Folder'}
               </Button>
               <Button 
                 onClick={() => multipleFilesInputRef.current?.click()}
-                disabled={isUploading}
                 variant="secondary"
               >
                 <Upload className="mr-2 h-4 w-4" />
                 Select Multiple Files
               </Button>
-              <Button onClick={() => setAddDialogOpen(true)} disabled={isUploading}>
+              <Button onClick={() => setAddDialogOpen(true)}>
                 <Plus className="mr-2 h-4 w-4" />
                 Add Track
               </Button>
               <input
                 ref={folderInputRef}
                 type="file"
-                accept=".mp3"
+                accept={AUDIO_FILE_ACCEPT}
                 multiple
                 {...({ webkitdirectory: '', directory: '' } as any)}
                 onChange={handleBulkUpload}
@@ -710,7 +741,7 @@ export default function Admin() {
               <input
                 ref={multipleFilesInputRef}
                 type="file"
-                accept=".mp3"
+                accept={AUDIO_FILE_ACCEPT}
                 multiple
                 onChange={handleBulkUpload}
                 className="hidden"
@@ -718,58 +749,245 @@ export default function Admin() {
             </div>
           </CardHeader>
           <CardContent>
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+              <Label className="text-sm">Record</Label>
+              <Select value={recordFilter ?? ALL_RECORDS} onValueChange={setRecordFilter}>
+                <SelectTrigger className="w-56" aria-label="Record to show">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_RECORDS}>All tracks</SelectItem>
+                  {records?.map((record) => (
+                    <SelectItem key={record.id} value={record.id}>{record.title}</SelectItem>
+                  ))}
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {canReorder
+                  ? 'New uploads go on this record. Drag the handles to reorder.'
+                  : 'Pick a record to reorder its tracks. New uploads are left unassigned.'}
+              </p>
+            </div>
+            {uploadQueue.items.length > 0 && <UploadQueuePanel queue={uploadQueue} />}
             {tracksLoading ? (
               <p>Loading tracks...</p>
-            ) : tracks?.length === 0 ? (
-              <p className="text-muted-foreground">No tracks yet. Add your first track!</p>
+            ) : visibleTracks.length === 0 ? (
+              <p className="text-muted-foreground">
+                {tracks?.length === 0 ? 'No tracks yet. Add your first track!' : 'No tracks on this record yet.'}
+              </p>
             ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Title</TableHead>
-                    <TableHead>Artist</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {tracks?.map((track) => (
-                    <TableRow key={track.id}>
-                      <TableCell className="font-medium">{track.title}</TableCell>
-                      <TableCell>{track.artist}</TableCell>
-                      <TableCell className="text-right">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => {
-                            setSelectedTrack(track);
-                            setEditTitle(track.title);
-                            setEditArtist(track.artist);
-                            setEditDialogOpen(true);
-                          }}
-                        >
-                          <Pencil className="h-4 w-4 mr-2" />
-                          Edit
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => {
-                            setSelectedTrack(track);
-                            setDeleteDialogOpen(true);
-                          }}
+              <>
+                {/* Tracks uploaded before technical details were recorded */}
+                {missingDetailsCount > 0 && (
+                  <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-md border border-border p-3">
+                    <p className="text-sm text-muted-foreground">
+                      {missingDetailsCount} track(s) are missing their length and audio details.
+                    </p>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => backfillTrackMetadata.mutate()}
+                      disabled={backfillTrackMetadata.isPending || pendingUploadCount > 0}
+                    >
+                      {backfillTrackMetadata.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                      )}
+                      Fill In Details
+                    </Button>
+                  </div>
+                )}
+                {/* Whole-side speed and label; individual tracks can still differ below */}
+                <div className="mb-4 flex flex-wrap gap-4">
+                  {RECORD_SIDES.filter((side) => visibleTracks.some((track) => track.side === side)).map((side) => {
+                    const sideTracks = visibleTracks.filter((track) => track.side === side);
+                    const speeds = new Set(sideTracks.map((track) => track.rpm));
+                    return (
+                      <div key={side} className="flex items-center gap-2">
+                        <Label className="text-sm">Side {side} speed</Label>
+                        <Select
+                          value={speeds.size === 1 ? String([...speeds][0]) : ''}
+                          onValueChange={(rpm) =>
+                            setSideSpeed.mutate({
+                              side,
+                              rpm: Number(rpm) as RecordSpeed,
+                              recordId: recordFilter === ALL_RECORDS ? undefined : targetRecordId,
+                            })
+                          }
                         >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete
-                        </Button>
-                      </TableCell>
+                          <SelectTrigger className="w-28" aria-label={`Speed for side ${side}`}>
+                            <SelectValue placeholder="Mixed" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RECORD_SPEEDS.map((speed) => (
+                              <SelectItem key={speed.value} value={String(speed.value)}>{speed.label} RPM</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {/* Side labels belong to a record, so only when one is shown */}
+                        {shownRecord && (
+                          <>
+                            <Label className="ml-2 text-sm">Label</Label>
+                            <Select
+                              value={shownRecord.sideLabels[side]?.labelImageId ?? RECORD_LABEL}
+                              onValueChange={(value) =>
+                                setSideLabel.mutate({
+                                  recordId: shownRecord.id,
+                                  side,
+                                  labelImageId: value === RECORD_LABEL ? null : value,
+                                })
+                              }
+                            >
+                              <SelectTrigger className="w-40" aria-label={`Label for side ${side}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              {labelOptions('Record label')}
+                            </Select>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {canReorder && <TableHead className="w-10"><span className="sr-only">Order</span></TableHead>}
+                      <TableHead>Title</TableHead>
+                      <TableHead>Artist</TableHead>
+                      <TableHead>Side</TableHead>
+                      <TableHead>Speed</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Audio</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleTracks.map((track) => (
+                      <TableRow
+                        key={track.dbId}
+                        {...trackReorder.getRowProps(track)}
+                        className="data-[dragging]:opacity-50 data-[drop-target]:bg-muted"
+                      >
+                        {canReorder && (
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="cursor-grab active:cursor-grabbing"
+                              {...trackReorder.getHandleProps(track)}
+                            >
+                              <GripVertical className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                        <TableCell className="font-medium">{track.title}</TableCell>
+                        <TableCell>{track.artist}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={track.side}
+                            onValueChange={(side) => updateTrack.mutate({ id: track.dbId, side: side as RecordSide })}
+                          >
+                            <SelectTrigger className="w-24" aria-label={`Side for ${track.title}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RECORD_SIDES.map((side) => (
+                                <SelectItem key={side} value={side}>Side {side}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={String(track.rpm)}
+                            onValueChange={(rpm) => updateTrack.mutate({ id: track.dbId, rpm: Number(rpm) as RecordSpeed })}
+                          >
+                            <SelectTrigger className="w-24" aria-label={`Speed for ${track.title}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RECORD_SPEEDS.map((speed) => (
+                                <SelectItem key={speed.value} value={String(speed.value)}>{speed.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={track.labelImageId ?? RECORD_LABEL}
+                            onValueChange={(value) =>
+                              updateTrack.mutate({ id: track.dbId, labelImageId: value === RECORD_LABEL ? null : value })
+                            }
+                          >
+                            <SelectTrigger className="w-40" aria-label={`Label for ${track.title}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            {labelOptions('Same as side')}
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <div className="tabular-nums">{formatDuration(track.durationSeconds)}</div>
+                          <div className="text-xs text-muted-foreground">{formatAudioDetails(track)}</div>
+                          {!canPlayAudioType(track.mimeType) && (
+                            <div className="mt-1 flex items-center gap-1 text-xs text-destructive">
+                              <AlertTriangle className="h-3 w-3" />
+                              This browser can't play {audioFormatLabel(track.mimeType)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setSelectedTrack(track);
+                              setEditTitle(track.title);
+                              setEditArtist(track.artist);
+                              setEditSide(track.side);
+                              setEditRecordId(track.recordId);
+                              setEditTags({
+                                album: track.album,
+                                trackNumber: track.trackNumber,
+                                discNumber: track.discNumber,
+                                year: track.year,
+                                genre: track.genre,
+                                composer: track.composer,
+                                credits: track.credits,
+                              });
+                              setEditCoverUrl(track.coverUrl);
+                              setEditDialogOpen(true);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setSelectedTrack(track);
+                              setDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="sr-only" aria-live="polite">{trackReorder.announcement}</p>
+              </>
             )}
           </CardContent>
         </Card>
 
+        <RecordsManager tracks={tracks ?? []} />
+
         <Card className="mt-8">
           <CardHeader>
             <CardTitle>Label Images</CardTitle>
@@ -825,7 +1043,15 @@ export default function Admin() {
           </CardContent>
         </Card>
 
+        <LabelDesigner />
+
+        <VinylStylePicker />
+
         <PlayerThemePicker />
+
+        <TrashBin />
+
+        <StorageReconciliation />
       </div>
 
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
@@ -833,7 +1059,7 @@ export default function Admin() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Track</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{selectedTrack?.title}"? This action cannot be undone.
+              Move "{selectedTrack?.title}" to the Trash? You can restore it from there until it is purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -844,7 +1070,7 @@ export default function Admin() {
       </AlertDialog>
 
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Track</DialogTitle>
             <DialogDescription>
@@ -866,12 +1092,138 @@ export default function Admin() {
                 onChange={(e) => setEditArtist(e.target.value)}
               />
             </div>
+            <div>
+              <label className="text-sm font-medium">Side</label>
+              <Select value={editSide} onValueChange={(side) => setEditSide(side as RecordSide)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECORD_SIDES.map((side) => (
+                    <SelectItem key={side} value={side}>Side {side}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Record</label>
+              <Select
+                value={editRecordId ?? UNASSIGNED}
+                onValueChange={(value) => setEditRecordId(value === UNASSIGNED ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {records?.map((record) => (
+                    <SelectItem key={record.id} value={record.id}>{record.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Album</label>
+              <Input
+                value={editTags.album ?? ''}
+                onChange={(e) => setEditTags({ ...editTags, album: e.target.value || null })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-sm font-medium">Track #</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={editTags.trackNumber ?? ''}
+                  onChange={(e) => setEditTags({ ...editTags, trackNumber: toOptionalNumber(e.target.value) })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Disc #</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={editTags.discNumber ?? ''}
+                  onChange={(e) => setEditTags({ ...editTags, discNumber: toOptionalNumber(e.target.value) })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Year</label>
+                <Input
+                  type="number"
+                  min={1877}
+                  max={2100}
+                  value={editTags.year ?? ''}
+                  onChange={(e) => setEditTags({ ...editTags, year: toOptionalNumber(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-sm font-medium">Genre</label>
+                <Input
+                  value={editTags.genre ?? ''}
+                  onChange={(e) => setEditTags({ ...editTags, genre: e.target.value || null })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Composer</label>
+                <Input
+                  value={editTags.composer ?? ''}
+                  onChange={(e) => setEditTags({ ...editTags, composer: e.target.value || null })}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Credits</label>
+              <Textarea
+                rows={2}
+                placeholder="Producer: ...; Mixed by: ..."
+                value={editTags.credits ?? ''}
+                onChange={(e) => setEditTags({ ...editTags, credits: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Cover Art</label>
+              <div className="mt-1 flex items-center gap-3">
+                {editCoverUrl ? (
+                  <img src={editCoverUrl} alt="" className="h-16 w-16 rounded object-cover" />
+                ) : (
+                  <div className="flex h-16 w-16 items-center justify-center rounded bg-muted">
+                    <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                  </div>
+                )}
+                <input
+                  ref={coverInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={handleCoverChange}
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => coverInputRef.current?.click()}
+                  disabled={uploadCover.isPending}
+                >
+                  {uploadCover.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editCoverUrl ? 'Replace' : 'Upload'}
+                </Button>
+                {editCoverUrl && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setEditCoverUrl(null)}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setEditDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleEdit}>Save</Button>
+            <Button onClick={handleEdit} disabled={uploadCover.isPending}>Save</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -901,12 +1253,25 @@ export default function Admin() {
               />
             </div>
             <div>
-              <Label htmlFor="file-upload">MP3 File</Label>
+              <Label htmlFor="new-side">Side</Label>
+              <Select value={newSide} onValueChange={(side) => setNewSide(side as RecordSide)}>
+                <SelectTrigger id="new-side">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECORD_SIDES.map((side) => (
+                    <SelectItem key={side} value={side}>Side {side}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="file-upload">Audio File</Label>
               <div className="flex gap-2">
                 <Input
                   id="file-upload"
                   type="file"
-                  accept=".mp3"
+                  accept={AUDIO_FILE_ACCEPT}
                   onChange={(e) => setUploadingFile(e.target.files?.[0] || null)}
                   required
                 />
@@ -925,7 +1290,7 @@ export default function Admin() {
       </Dialog>
 
       <Dialog open={labelUploadDialogOpen} onOpenChange={setLabelUploadDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Upload Label Image</DialogTitle>
           </DialogHeader>
@@ -940,20 +1305,11 @@ export default function Admin() {
                 required
               />
               <p className="text-xs text-muted-foreground mt-1">
-                PNG, JPG, JPEG, or WebP • Max 5MB • Square images recommended
+                PNG, JPG, JPEG, or WebP • Max 5MB • Cropped to a circle and saved in several sizes
               </p>
             </div>
-            {uploadingLabel && (
-              <div className="border rounded-lg p-2">
-                <p className="text-sm font-medium">Preview:</p>
-                <div className="aspect-square mt-2 rounded overflow-hidden bg-muted max-w-[200px]">
-                  <img 
-                    src={URL.createObjectURL(uploadingLabel)} 
-                    alt="Preview"
-                    className="w-full h-full object-contain"
-                  />
-                </div>
-              </div>
+            {labelSource && (
+              <LabelCropper source={labelSource} crop={labelCrop} onCropChange={setLabelCrop} />
             )}
             <div className="flex justify-end gap-2">
               <Button 
@@ -979,7 +1335,7 @@ export default function Admin() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Label Image?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete "{selectedLabel?.name}". This action cannot be undone.
+              Move "{selectedLabel?.name}" to the Trash? You can restore it from there until it is purged.
               {selectedLabel?.is_active && ' The player will fall back to the default label.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -1,14 +1,17 @@
 import { useNavigate } from "react-router-dom";
-import { useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import VinylPlayer from "@/components/VinylPlayer";
-import { useTracks } from "@/hooks/useTracks";
+import CrateBrowser from "@/components/CrateBrowser";
+import { useTracks, useTracksRealtime } from "@/hooks/useTracks";
 import { useActiveLabelImage } from "@/hooks/useLabelImages";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Settings } from "lucide-react";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useActivePlayerTheme, usePlayerThemeRealtime } from "@/hooks/usePlayerTheme";
+import { useVinylStyle } from "@/hooks/useVinylStyle";
+import { useRecords, useRecordsRealtime } from "@/hooks/useRecords";
 import { supabase } from "@/integrations/supabase/client";
 
 const Index = () => {
@@ -19,7 +22,35 @@ const Index = () => {
   const { data: activeLabel } = useActiveLabelImage();
   const { data: role } = useUserRole(user?.id);
   const { theme } = useActivePlayerTheme();
+  const { data: vinylStyle } = useVinylStyle();
+  const { data: records, isLoading: recordsLoading } = useRecords();
+  const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null);
+  // Picked from the crate, waiting for the current disc to go back in its sleeve
+  const [pendingRecordId, setPendingRecordId] = useState<string | null>(null);
   usePlayerThemeRealtime();
+  useTracksRealtime();
+  useRecordsRealtime();
+
+  // Only records with something to play go in the crate
+  const crate = useMemo(
+    () => (records ?? []).filter((record) => tracks?.some((track) => track.recordId === record.id)),
+    [records, tracks]
+  );
+  const currentRecord = crate.find((record) => record.id === selectedRecordId) ?? crate[0] ?? null;
+
+  // Memoised so the player only sees a new list when the tracks really change. Tracks
+  // without a label of their own take their side's, if it has one
+  const recordTracks = useMemo(() => {
+    if (!currentRecord) return tracks ?? [];
+    return (tracks ?? [])
+      .filter((track) => track.recordId === currentRecord.id)
+      .map((track) => {
+        const sideLabel = currentRecord.sideLabels[track.side];
+        return track.labelImageUrl || !sideLabel?.labelImageUrl
+          ? track
+          : { ...track, labelImageUrl: sideLabel.labelImageUrl, labelImageVariants: sideLabel.labelImageVariants };
+      });
+  }, [currentRecord, tracks]);
 
   // Subscribe to label changes for realtime updates
   useEffect(() => {
@@ -34,6 +65,8 @@ const Index = () => {
         },
         () => {
           queryClient.invalidateQueries({ queryKey: ['active-label'] });
+          queryClient.invalidateQueries({ queryKey: ['records'] });
+          queryClient.invalidateQueries({ queryKey: ['tracks'] });
         }
       )
       .subscribe();
@@ -43,7 +76,7 @@ const Index = () => {
     };
   }, [queryClient]);
 
-  if (isLoading) {
+  if (isLoading || recordsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-vignette">
         <p className="text-lg">Loading tracks...</p>
@@ -62,11 +95,37 @@ const Index = () => {
         </div>
       )}
       
-      {tracks && tracks.length > 0 ? (
+      {crate.length > 1 && (
+        <CrateBrowser
+          records={crate}
+          selectedId={pendingRecordId ?? currentRecord?.id ?? null}
+          onSelect={(record) => setPendingRecordId(record.id)}
+        />
+      )}
+
+      {recordTracks.length > 0 ? (
         <VinylPlayer 
-          tracks={tracks} 
-          labelImageUrl={activeLabel?.image_url || "/images/label-blank-template.png"} 
+          key={currentRecord?.id ?? 'all-tracks'}
+          tracks={recordTracks} 
+          labelImageUrl={currentRecord?.labelImageUrl || activeLabel?.image_url || "/images/label-blank-template.png"} 
+          labelImageVariants={currentRecord?.labelImageUrl ? currentRecord.labelImageVariants : activeLabel?.variants}
           theme={theme}
+          vinylStyle={currentRecord?.vinylStyle ?? vinylStyle ?? undefined}
+          sleeve={
+            currentRecord
+              ? {
+                  title: currentRecord.title,
+                  artist: currentRecord.artist,
+                  imageUrl: currentRecord.sleeveUrl,
+                  backImageUrl: currentRecord.backSleeveUrl,
+                }
+              : undefined
+          }
+          returnToSleeve={pendingRecordId !== null}
+          onReturnedToSleeve={() => {
+            setSelectedRecordId(pendingRecordId);
+            setPendingRecordId(null);
+          }}
         />
       ) : (
         <div className="min-h-screen flex items-center justify-center bg-vignette">
@@ -0,0 +1,524 @@
+/**
+ * Web Audio playback engine for the turntable.
+ *
+ * Tracks are fetched and decoded into AudioBuffers so the following track can be
+ * scheduled sample-accurately against the end of the current one (gapless playback).
+ * Every source feeds the graph `input`; effects are patched between `input` and
+ * `output` with `setEffects`, and `output` goes to the speakers.
+ *
+ * Playback rate can ramp (platter spin-up / wind-down); the reported position
+ * integrates the ramp so the tonearm and progress bar stay in step with the audio.
+ *
+ * While scratching, the track is driven by hand: each `scratch()` position plays
+ * forwards or backwards (from a reversed copy of the buffer) at the hand's speed.
+ */
+
+export type AudioEngineEvent =
+  | { type: 'loaded'; url: string; duration: number }
+  | { type: 'advance'; url: string; duration: number }
+  | { type: 'ended'; url: string }
+  | { type: 'error'; url: string; error: unknown };
+
+export interface AudioEngineGraph {
+  context: AudioContext;
+  /** Every track source connects here. */
+  input: GainNode;
+  /** Post-effects bus; connected to the speakers. */
+  output: GainNode;
+}
+
+export interface AudioEngine {
+  /** Creates (or resumes) the AudioContext. Call from a user gesture. */
+  unlock: () => Promise<void>;
+  getGraph: () => AudioEngineGraph;
+  /** Makes `url` the current track, stopping playback. Resolves once decoded. */
+  load: (url: string) => Promise<void>;
+  /** Track to start gaplessly when the current one ends (`null` clears it). */
+  setNext: (url: string | null) => void;
+  play: (offset?: number) => Promise<void>;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  /** Changes speed and pitch together (pitch is never preserved, as on a turntable), linearly over `rampSeconds`. */
+  setPlaybackRate: (rate: number, rampSeconds?: number) => void;
+  getPlaybackRate: () => number;
+  /** Takes the track over by hand: playback stops and follows `scratch()` instead. */
+  beginScratch: () => void;
+  /** Moves to `seconds`, sounding the groove at the speed and direction of the move. */
+  scratch: (seconds: number) => void;
+  /** Lets go at the last scratch position, optionally carrying on playing from there. Rejects if playback can't resume. */
+  endScratch: (resume: boolean) => Promise<void>;
+  getCurrentUrl: () => string | null;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  isPlaying: () => boolean;
+  /** Chains `nodes` in order between the graph input and output. */
+  setEffects: (nodes: AudioNode[]) => void;
+  /** Signal (in cents) added to the pitch of every track source, e.g. wow & flutter. */
+  setDetuneModulation: (node: AudioNode | null) => void;
+  subscribe: (listener: (event: AudioEngineEvent) => void) => () => void;
+  dispose: () => void;
+}
+
+// Fastest hand movement that still sounds like a scratch rather than a skip.
+const MAX_SCRATCH_RATE = 4;
+// The sound dies away this soon after the hand stops moving.
+const SCRATCH_HOLD_SECONDS = 0.06;
+// Restart the scratch source once its estimated position drifts this far.
+const SCRATCH_RESYNC_SECONDS = 0.25;
+
+const reverseBuffer = (context: AudioContext, buffer: AudioBuffer) => {
+  const reversed = context.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel).slice().reverse();
+    reversed.copyToChannel(data, channel);
+  }
+  return reversed;
+};
+
+// Decoded tracks are large; only the current and queued ones are kept.
+const fetchAndDecode = async (context: AudioContext, url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url} (${response.status})`);
+  }
+  const data = await response.arrayBuffer();
+  return context.decodeAudioData(data);
+};
+
+export function createAudioEngine(): AudioEngine {
+  let graph: AudioEngineGraph | null = null;
+  let effects: AudioNode[] = [];
+  let detuneModulation: AudioNode | null = null;
+  const buffers = new Map<string, Promise<AudioBuffer>>();
+  const listeners = new Set<(event: AudioEngineEvent) => void>();
+
+  let currentUrl: string | null = null;
+  let currentBuffer: AudioBuffer | null = null;
+  let nextUrl: string | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let nextSource: AudioBufferSourceNode | null = null;
+  let nextStartsAt = 0;
+  let playing = false;
+  // Playback position is `anchorOffset` at context time `anchorTime`.
+  let anchorTime = 0;
+  let anchorOffset = 0;
+  // Rate ramps linearly from `rateFrom` at `anchorTime` to `rateTo` at `rampEnd`.
+  let rateFrom = 1;
+  let rateTo = 1;
+  let rampEnd = 0;
+  // Bumped whenever playback intent changes, so stale async play() calls bail out.
+  let token = 0;
+
+  // Hand-cueing state
+  let scratching = false;
+  let scratchSource: AudioBufferSourceNode | null = null;
+  let scratchDirection = 0;
+  let scratchAt = 0;
+  let scratchRate = 0;
+  let scratchHeard = 0;
+  let reversed: { forward: AudioBuffer; buffer: AudioBuffer } | null = null;
+
+  const emit = (event: AudioEngineEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const getGraph = (): AudioEngineGraph => {
+    if (!graph) {
+      const context = new AudioContext();
+      const input = context.createGain();
+      const output = context.createGain();
+      input.connect(output);
+      output.connect(context.destination);
+      graph = { context, input, output };
+    }
+    return graph;
+  };
+
+  const getBuffer = (url: string) => {
+    let pending = buffers.get(url);
+    if (!pending) {
+      pending = fetchAndDecode(getGraph().context, url);
+      // Failed decodes are retried on the next request
+      pending.catch(() => buffers.delete(url));
+      buffers.set(url, pending);
+    }
+    return pending;
+  };
+
+  const pruneBuffers = () => {
+    for (const url of buffers.keys()) {
+      if (url !== currentUrl && url !== nextUrl) buffers.delete(url);
+    }
+  };
+
+  const rateAt = (time: number) => {
+    const span = rampEnd - anchorTime;
+    if (span <= 0 || time >= rampEnd) return rateTo;
+    return rateFrom + (rateTo - rateFrom) * Math.max(0, time - anchorTime) / span;
+  };
+
+  // Seconds of track played between `anchorTime` and `time`.
+  const travelled = (time: number) => {
+    const elapsed = Math.max(0, time - anchorTime);
+    const span = rampEnd - anchorTime;
+    if (span <= 0) return rateTo * elapsed;
+    if (elapsed <= span) {
+      return rateFrom * elapsed + ((rateTo - rateFrom) * elapsed * elapsed) / (2 * span);
+    }
+    return ((rateFrom + rateTo) / 2) * span + rateTo * (elapsed - span);
+  };
+
+  const getCurrentTime = () => {
+    if (!currentBuffer) return anchorOffset;
+    if (!playing || !graph) return anchorOffset;
+    const position = anchorOffset + travelled(graph.context.currentTime);
+    return Math.min(currentBuffer.duration, Math.max(0, position));
+  };
+
+  // Restates the position and any ramp in progress relative to now.
+  const reanchor = () => {
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    anchorOffset = getCurrentTime();
+    rateFrom = rateAt(now);
+    anchorTime = now;
+  };
+
+  const applyRate = (node: AudioBufferSourceNode, from: number) => {
+    const param = node.playbackRate;
+    param.cancelScheduledValues(from);
+    param.setValueAtTime(rateAt(from), from);
+    if (rampEnd > from) param.linearRampToValueAtTime(rateTo, rampEnd);
+  };
+
+  // Context seconds from now until `distance` seconds of track have played.
+  const timeToTravel = (distance: number) => {
+    if (distance <= 0) return 0;
+    const span = Math.max(0, rampEnd - anchorTime);
+    const rampDistance = ((rateFrom + rateTo) / 2) * span;
+    if (distance > rampDistance) {
+      return rateTo > 0 ? span + (distance - rampDistance) / rateTo : Infinity;
+    }
+    const curve = (rateTo - rateFrom) / (2 * span);
+    if (Math.abs(curve) < 1e-9) return rateFrom > 0 ? distance / rateFrom : Infinity;
+    const discriminant = rateFrom * rateFrom + 4 * curve * distance;
+    if (discriminant < 0) return Infinity;
+    return (-rateFrom + Math.sqrt(discriminant)) / (2 * curve);
+  };
+
+  const releaseSource = (node: AudioBufferSourceNode | null) => {
+    if (!node) return;
+    node.onended = null;
+    try {
+      node.stop();
+    } catch {
+      // Never started
+    }
+    node.disconnect();
+  };
+
+  const modulate = (node: AudioBufferSourceNode) => {
+    detuneModulation?.connect(node.detune);
+  };
+
+  const cancelNext = () => {
+    releaseSource(nextSource);
+    nextSource = null;
+  };
+
+  const stopSources = () => {
+    releaseSource(source);
+    source = null;
+    releaseSource(scratchSource);
+    scratchSource = null;
+    cancelNext();
+  };
+
+  const getReversedBuffer = (buffer: AudioBuffer) => {
+    if (reversed?.forward !== buffer) {
+      reversed = { forward: buffer, buffer: reverseBuffer(getGraph().context, buffer) };
+    }
+    return reversed.buffer;
+  };
+
+  const startScratchSource = (seconds: number, direction: number) => {
+    if (!currentBuffer) return;
+    const { context, input } = getGraph();
+    releaseSource(scratchSource);
+    const backwards = direction < 0;
+    scratchSource = context.createBufferSource();
+    scratchSource.buffer = backwards ? getReversedBuffer(currentBuffer) : currentBuffer;
+    scratchSource.playbackRate.value = 0;
+    scratchSource.connect(input);
+    const offset = backwards ? currentBuffer.duration - seconds : seconds;
+    scratchSource.start(context.currentTime, Math.max(0, offset));
+    scratchDirection = direction;
+    scratchHeard = seconds;
+  };
+
+  // The queued track has taken over from the one that just finished.
+  const promoteNext = async () => {
+    const promoted = nextSource;
+    const url = nextUrl;
+    if (!promoted || !url) return;
+    source = promoted;
+    nextSource = null;
+    currentUrl = url;
+    currentBuffer = await getBuffer(url);
+    nextUrl = null;
+    rateFrom = rateAt(nextStartsAt);
+    anchorTime = nextStartsAt;
+    anchorOffset = 0;
+    source.onended = handleSourceEnded(source);
+    pruneBuffers();
+    emit({ type: 'advance', url, duration: currentBuffer.duration });
+  };
+
+  function handleSourceEnded(node: AudioBufferSourceNode) {
+    return () => {
+      if (node !== source) return;
+      if (nextSource) {
+        void promoteNext();
+        return;
+      }
+      const url = currentUrl;
+      releaseSource(source);
+      source = null;
+      playing = false;
+      anchorOffset = currentBuffer?.duration ?? 0;
+      if (url) emit({ type: 'ended', url });
+    };
+  }
+
+  const scheduleNext = async () => {
+    const url = nextUrl;
+    if (!url || !playing || nextSource || !currentBuffer) return;
+    const scheduledToken = token;
+    let buffer: AudioBuffer;
+    try {
+      buffer = await getBuffer(url);
+    } catch (error) {
+      emit({ type: 'error', url, error });
+      return;
+    }
+    if (scheduledToken !== token || url !== nextUrl || !playing || nextSource) return;
+
+    const { context, input } = getGraph();
+    reanchor();
+    const wait = timeToTravel(currentBuffer.duration - anchorOffset);
+    // Winding down to a stop: the next track never comes round
+    if (!isFinite(wait)) return;
+    nextStartsAt = context.currentTime + Math.max(0, wait);
+    nextSource = context.createBufferSource();
+    nextSource.buffer = buffer;
+    applyRate(nextSource, nextStartsAt);
+    modulate(nextSource);
+    nextSource.connect(input);
+    nextSource.start(nextStartsAt);
+  };
+
+  const startSource = () => {
+    if (!currentBuffer) return;
+    const { context, input } = getGraph();
+    source = context.createBufferSource();
+    source.buffer = currentBuffer;
+    modulate(source);
+    source.connect(input);
+    source.onended = handleSourceEnded(source);
+    if (playing) {
+      reanchor();
+    } else {
+      anchorTime = context.currentTime;
+      rateFrom = rateAt(anchorTime);
+    }
+    applyRate(source, anchorTime);
+    source.start(anchorTime, anchorOffset);
+  };
+
+  const engine: AudioEngine = {
+    unlock: async () => {
+      const { context } = getGraph();
+      if (context.state === 'suspended') await context.resume();
+    },
+
+    getGraph,
+
+    load: async (url) => {
+      token++;
+      stopSources();
+      playing = false;
+      currentUrl = url;
+      currentBuffer = null;
+      anchorOffset = 0;
+      if (nextUrl === url) nextUrl = null;
+      pruneBuffers();
+      try {
+        const buffer = await getBuffer(url);
+        if (currentUrl !== url) return;
+        currentBuffer = buffer;
+        emit({ type: 'loaded', url, duration: buffer.duration });
+      } catch (error) {
+        if (currentUrl === url) emit({ type: 'error', url, error });
+      }
+    },
+
+    setNext: (url) => {
+      if (url === nextUrl) return;
+      cancelNext();
+      nextUrl = url;
+      pruneBuffers();
+      if (!url) return;
+      getBuffer(url).catch(() => {
+        // Reported when scheduling
+      });
+      void scheduleNext();
+    },
+
+    play: async (offset) => {
+      const playToken = ++token;
+      const url = currentUrl;
+      if (!url) return;
+      const { context } = getGraph();
+      if (context.state === 'suspended') await context.resume();
+      const buffer = await getBuffer(url);
+      if (playToken !== token || currentUrl !== url) return;
+
+      currentBuffer = buffer;
+      stopSources();
+      if (offset !== undefined) anchorOffset = offset;
+      if (anchorOffset >= buffer.duration) anchorOffset = 0;
+      startSource();
+      playing = true;
+      void scheduleNext();
+    },
+
+    pause: () => {
+      token++;
+      anchorOffset = getCurrentTime();
+      stopSources();
+      playing = false;
+    },
+
+    seek: (seconds) => {
+      const duration = currentBuffer?.duration ?? 0;
+      if (playing) reanchor();
+      anchorOffset = Math.min(duration, Math.max(0, seconds));
+      if (!playing) return;
+      stopSources();
+      startSource();
+      void scheduleNext();
+    },
+
+    setPlaybackRate: (rate, rampSeconds = 0) => {
+      if (!playing || !graph || rampSeconds <= 0) {
+        if (playing) reanchor();
+        rateFrom = rate;
+        rateTo = rate;
+        rampEnd = 0;
+        if (playing && graph && source) applyRate(source, graph.context.currentTime);
+      } else {
+        reanchor();
+        rateTo = rate;
+        rampEnd = graph.context.currentTime + rampSeconds;
+        if (source) applyRate(source, graph.context.currentTime);
+      }
+      cancelNext();
+      void scheduleNext();
+    },
+
+    getPlaybackRate: () => (graph && playing ? rateAt(graph.context.currentTime) : rateTo),
+
+    beginScratch: () => {
+      token++;
+      anchorOffset = getCurrentTime();
+      stopSources();
+      playing = false;
+      scratching = true;
+      scratchDirection = 0;
+      scratchRate = 0;
+      scratchAt = graph?.context.currentTime ?? 0;
+    },
+
+    scratch: (seconds) => {
+      const duration = currentBuffer?.duration ?? 0;
+      const position = Math.min(duration, Math.max(0, seconds));
+      if (!scratching || !currentBuffer || !graph) {
+        anchorOffset = position;
+        return;
+      }
+
+      const now = graph.context.currentTime;
+      const elapsed = Math.max(0.001, now - scratchAt);
+      const velocity = (position - anchorOffset) / elapsed;
+      // Where the scratch source has got to at the rate it was last given
+      scratchHeard += scratchDirection * scratchRate * Math.min(elapsed, SCRATCH_HOLD_SECONDS);
+      scratchAt = now;
+      anchorOffset = position;
+      if (velocity === 0) return;
+
+      const direction = Math.sign(velocity);
+      if (!scratchSource || direction !== scratchDirection || Math.abs(scratchHeard - position) > SCRATCH_RESYNC_SECONDS) {
+        startScratchSource(position, direction);
+      }
+
+      scratchRate = Math.min(MAX_SCRATCH_RATE, Math.abs(velocity));
+      const param = scratchSource!.playbackRate;
+      param.cancelScheduledValues(now);
+      param.setTargetAtTime(scratchRate, now, 0.01);
+      param.setTargetAtTime(0, now + SCRATCH_HOLD_SECONDS, 0.03);
+    },
+
+    endScratch: async (resume) => {
+      if (!scratching) return;
+      scratching = false;
+      releaseSource(scratchSource);
+      scratchSource = null;
+      if (resume) await engine.play();
+    },
+
+    getCurrentUrl: () => currentUrl,
+    getCurrentTime,
+    getDuration: () => currentBuffer?.duration ?? 0,
+    isPlaying: () => playing,
+
+    setEffects: (nodes) => {
+      const { input, output } = getGraph();
+      input.disconnect();
+      effects.forEach((node) => node.disconnect());
+      effects = nodes;
+      const chain = [input, ...nodes, output];
+      for (let i = 0; i < chain.length - 1; i++) {
+        chain[i].connect(chain[i + 1]);
+      }
+    },
+
+    setDetuneModulation: (node) => {
+      detuneModulation?.disconnect();
+      detuneModulation = node;
+      if (source) modulate(source);
+      if (nextSource) modulate(nextSource);
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    dispose: () => {
+      token++;
+      stopSources();
+      playing = false;
+      listeners.clear();
+      buffers.clear();
+      graph?.context.close().catch(() => {});
+      graph = null;
+      reversed = null;
+      effects = [];
+      detuneModulation = null;
+    },
+  };
+
+  return engine;
+}
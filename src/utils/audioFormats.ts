@@ -0,0 +1,173 @@
+export type AudioFormatId = 'mp3' | 'flac' | 'wav' | 'aiff' | 'ogg' | 'opus' | 'aac' | 'm4a';
+
+export interface AudioFormat {
+  id: AudioFormatId;
+  label: string;
+  /** Stored with the track and sent as the upload's content type. */
+  mimeType: string;
+  /** Extension used for the stored file name. */
+  extension: string;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormatId, AudioFormat> = {
+  mp3: { id: 'mp3', label: 'MP3', mimeType: 'audio/mpeg', extension: 'mp3' },
+  flac: { id: 'flac', label: 'FLAC', mimeType: 'audio/flac', extension: 'flac' },
+  wav: { id: 'wav', label: 'WAV', mimeType: 'audio/wav', extension: 'wav' },
+  aiff: { id: 'aiff', label: 'AIFF', mimeType: 'audio/aiff', extension: 'aiff' },
+  ogg: { id: 'ogg', label: 'Ogg Vorbis', mimeType: 'audio/ogg', extension: 'ogg' },
+  opus: { id: 'opus', label: 'Opus', mimeType: 'audio/ogg; codecs=opus', extension: 'opus' },
+  aac: { id: 'aac', label: 'AAC', mimeType: 'audio/aac', extension: 'aac' },
+  m4a: { id: 'm4a', label: 'M4A', mimeType: 'audio/mp4', extension: 'm4a' },
+};
+
+/** `accept` for upload inputs. Only a hint for the file picker; uploads are checked by `sniffAudioFormat`. */
+export const AUDIO_FILE_ACCEPT = [
+  '.mp3', '.flac', '.wav', '.aif', '.aiff', '.ogg', '.oga', '.opus', '.aac', '.m4a', '.mp4',
+  'audio/*',
+].join(',');
+
+/** Matches the extension of any accepted audio file, for stripping it from titles. */
+export const AUDIO_EXTENSION_PATTERN = /\.(mp3|flac|wav|aiff?|ogg|oga|opus|aac|m4a|mp4)$/i;
+
+// Enough to get past the Ogg page header to the codec's identification packet
+const HEADER_BYTES = 64;
+
+const readBytes = async (file: Blob, offset: number, length: number) =>
+  new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Brands only given to audio: iTunes audio, audiobooks, protected audio and Flash audio
+const MP4_AUDIO_BRANDS = ['M4A ', 'M4B ', 'M4P ', 'F4A ', 'F4B '];
+// QuickTime movies and the video-only MP4 brands
+const MP4_VIDEO_BRANDS = ['qt  ', 'M4V ', 'M4VH', 'M4VP', 'F4V ', 'F4P '];
+// The movie box holds the track list and is rarely over a few MB; past this we don't read it
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] * 2 ** 24 + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+/** Size and header length of the ISO-BMFF box starting at `offset`; null if it's malformed. */
+const boxHeader = (bytes: Uint8Array, offset: number, remaining: number) => {
+  let size = uint32(bytes, offset);
+  let headerSize = 8;
+  if (size === 1) {
+    size = uint32(bytes, offset + 8) * 2 ** 32 + uint32(bytes, offset + 12);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = remaining;
+  }
+  return size < headerSize ? null : { type: ascii(bytes, offset + 4, 4), size, headerSize };
+};
+
+/** The boxes inside a box's payload, of one type. */
+const childBoxes = (bytes: Uint8Array, type: string) => {
+  const found: Uint8Array[] = [];
+  for (let offset = 0; offset + 8 <= bytes.length; ) {
+    const box = boxHeader(bytes, offset, bytes.length - offset);
+    if (!box) break;
+    if (box.type === type) found.push(bytes.subarray(offset + box.headerSize, offset + box.size));
+    offset += box.size;
+  }
+  return found;
+};
+
+/** Payload of the top-level `moov` box, which may come after the audio. */
+const readMoov = async (file: Blob, start: number) => {
+  for (let offset = start; offset + 8 <= file.size; ) {
+    const box = boxHeader(await readBytes(file, offset, 16), 0, file.size - offset);
+    if (!box) return null;
+    if (box.type === 'moov') {
+      return box.size > MAX_MOOV_BYTES ? null : readBytes(file, offset + box.headerSize, box.size - box.headerSize);
+    }
+    offset += box.size;
+  }
+  return null;
+};
+
+/**
+ * Whether an MP4 file (`ftyp` at `start`) is audio. Audio brands pass and video
+ * brands fail; generic brands such as `isom` and `mp42` pass only if every track
+ * is sound, going by each track's handler.
+ */
+const isMp4Audio = async (file: Blob, start: number) => {
+  const header = await readBytes(file, start, 16);
+  const ftyp = boxHeader(header, 0, file.size - start);
+  if (!ftyp) return false;
+  const ftypBytes = await readBytes(file, start, Math.min(ftyp.size, 256));
+  // Major brand, then the compatible brands after the minor version
+  const brands = [ascii(ftypBytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= ftypBytes.length; offset += 4) brands.push(ascii(ftypBytes, offset, 4));
+
+  if (brands.some((brand) => MP4_AUDIO_BRANDS.includes(brand))) return true;
+  if (MP4_VIDEO_BRANDS.includes(brands[0])) return false;
+
+  const moov = await readMoov(file, start);
+  if (!moov) return false;
+  // moov > trak > mdia > hdlr, whose handler type follows version, flags and a reserved word
+  const handlers = childBoxes(moov, 'trak')
+    .flatMap((trak) => childBoxes(trak, 'mdia'))
+    .flatMap((mdia) => childBoxes(mdia, 'hdlr'))
+    .map((hdlr) => ascii(hdlr, 8, 4));
+  return handlers.includes('soun') && handlers.every((handler) => handler !== 'vide');
+};
+
+/** Size of a leading ID3v2 tag, which MP3, AAC and some FLAC files carry before the audio. */
+const id3Length = (bytes: Uint8Array) => {
+  if (ascii(bytes, 0, 3) !== 'ID3') return 0;
+  // Synchsafe integer: 7 bits per byte
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+};
+
+const detect = (bytes: Uint8Array): AudioFormatId | null => {
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (ascii(bytes, 0, 4) === 'FORM' && ['AIFF', 'AIFC'].includes(ascii(bytes, 8, 4))) return 'aiff';
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    // First packet starts after the 27-byte page header and its segment table
+    const packet = 27 + bytes[26];
+    if (ascii(bytes, packet, 8) === 'OpusHead') return 'opus';
+    if (ascii(bytes, packet + 1, 6) === 'vorbis') return 'ogg';
+    return null;
+  }
+  // Could still be video; `isMp4Audio` decides
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'm4a';
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return 'aac'; // ADTS frame
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0) return 'mp3'; // MPEG audio frame
+  return null;
+};
+
+/**
+ * Works out an audio file's format from its first bytes, ignoring its name and
+ * the MIME type the browser guessed. Returns null for anything we don't accept.
+ */
+export async function sniffAudioFormat(file: Blob): Promise<AudioFormat | null> {
+  let bytes = await readBytes(file, 0, HEADER_BYTES);
+  const tagLength = id3Length(bytes);
+  if (tagLength > 0) bytes = await readBytes(file, tagLength, HEADER_BYTES);
+
+  // A tag followed by anything other than frames is still most likely MP3
+  const id = detect(bytes) ?? (tagLength > 0 ? 'mp3' : null);
+  if (id === 'm4a' && !(await isMp4Audio(file, tagLength))) return null;
+  return id ? AUDIO_FORMATS[id] : null;
+}
+
+/** Display name for a stored MIME type, e.g. "FLAC". */
+export const audioFormatLabel = (mimeType: string) =>
+  Object.values(AUDIO_FORMATS).find((format) => format.mimeType === mimeType)?.label ?? mimeType;
+
+const playable = new Map<string, boolean>();
+
+/** Whether this browser can play a stored MIME type; '' from `canPlayType` means no. */
+export const canPlayAudioType = (mimeType: string) => {
+  if (typeof Audio === 'undefined') return true;
+  let canPlay = playable.get(mimeType);
+  if (canPlay === undefined) {
+    canPlay = new Audio().canPlayType(mimeType) !== '';
+    playable.set(mimeType, canPlay);
+  }
+  return canPlay;
+};
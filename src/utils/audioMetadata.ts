@@ -0,0 +1,162 @@
+import { parseBlob, selectCover, type IAudioMetadata } from 'music-metadata-browser';
+import { AUDIO_EXTENSION_PATTERN } from '@/utils/audioFormats';
+
+/** Technical details of an audio file; fields the file doesn't declare are null. */
+export interface TrackTechnicalMetadata {
+  durationSeconds: number | null;
+  /** Bits per second. */
+  bitrate: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  fileSize: number;
+}
+
+/** Descriptive tags beyond title and artist; anything the file doesn't carry is null. */
+export interface TrackTags {
+  album: string | null;
+  trackNumber: number | null;
+  discNumber: number | null;
+  year: number | null;
+  genre: string | null;
+  composer: string | null;
+  /** e.g. "Producer: A; Mixed by: B". */
+  credits: string | null;
+}
+
+/** Embedded front cover, still to be uploaded. */
+export interface CoverArt {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface AudioMetadata {
+  title: string;
+  artist: string;
+  tags: TrackTags;
+  cover: CoverArt | null;
+  technical: TrackTechnicalMetadata;
+}
+
+export const EMPTY_TRACK_TAGS: TrackTags = {
+  album: null,
+  trackNumber: null,
+  discNumber: null,
+  year: null,
+  genre: null,
+  composer: null,
+  credits: null,
+};
+
+// Credited roles in the order they're listed
+const CREDIT_ROLES = [
+  ['lyricist', 'Lyrics'],
+  ['writer', 'Written by'],
+  ['arranger', 'Arranged by'],
+  ['conductor', 'Conductor'],
+  ['producer', 'Producer'],
+  ['engineer', 'Engineer'],
+  ['mixer', 'Mixed by'],
+  ['remixer', 'Remixed by'],
+] as const;
+
+const toTags = (common: IAudioMetadata['common']): TrackTags => {
+  const join = (values?: string[]) => (values?.length ? values.join(', ') : null);
+  const credits = CREDIT_ROLES
+    .filter(([role]) => common[role]?.length)
+    .map(([role, label]) => `${label}: ${join(common[role])}`)
+    .join('; ');
+  return {
+    album: common.album || null,
+    trackNumber: common.track.no,
+    discNumber: common.disk.no,
+    year: common.year ?? null,
+    genre: join(common.genre),
+    composer: join(common.composer),
+    credits: credits || null,
+  };
+};
+
+const toCoverArt = (common: IAudioMetadata['common']): CoverArt | null => {
+  const picture = selectCover(common.picture);
+  return picture ? { data: new Uint8Array(picture.data), mimeType: picture.format } : null;
+};
+
+const toTechnicalMetadata = (format: IAudioMetadata['format'] | null, file: Blob): TrackTechnicalMetadata => ({
+  durationSeconds: format?.duration ?? null,
+  bitrate: format?.bitrate ? Math.round(format.bitrate) : null,
+  sampleRate: format?.sampleRate ?? null,
+  channels: format?.numberOfChannels ?? null,
+  fileSize: file.size,
+});
+
+// The parser picks its reader from the blob's type, so hand it the sniffed one
+const withType = (file: Blob, mimeType?: string) =>
+  mimeType && file.type !== mimeType ? new Blob([file], { type: mimeType }) : file;
+
+/**
+ * Extract metadata from any supported audio file (ID3, Vorbis comments, MP4 atoms...)
+ * with a filename fallback. Pass the sniffed `mimeType` when the file's own can't be trusted.
+ */
+export async function extractAudioMetadata(file: File, mimeType?: string): Promise<AudioMetadata> {
+  const fallbackTitle = file.name.replace(AUDIO_EXTENSION_PATTERN, '');
+  try {
+    const metadata = await parseBlob(withType(file, mimeType), { duration: true });
+    const title = metadata.common.title || parseFilename(file.name).title;
+    const artist = metadata.common.artist || parseFilename(file.name).artist;
+    
+    return {
+      title: title || fallbackTitle,
+      artist: artist || 'Unknown Artist',
+      tags: toTags(metadata.common),
+      cover: toCoverArt(metadata.common),
+      technical: toTechnicalMetadata(metadata.format, file)
+    };
+  } catch (error) {
+    // Fallback to filename parsing if metadata extraction fails
+    const parsed = parseFilename(file.name);
+    return {
+      title: parsed.title || fallbackTitle,
+      artist: parsed.artist || 'Unknown Artist',
+      tags: EMPTY_TRACK_TAGS,
+      cover: null,
+      technical: toTechnicalMetadata(null, file)
+    };
+  }
+}
+
+/**
+ * Read duration, bitrate, sample rate and channel count from an audio file,
+ * e.g. one downloaded again for tracks uploaded before these were recorded
+ */
+export async function extractTechnicalMetadata(file: Blob, mimeType?: string): Promise<TrackTechnicalMetadata> {
+  try {
+    const metadata = await parseBlob(withType(file, mimeType), { duration: true });
+    return toTechnicalMetadata(metadata.format, file);
+  } catch (error) {
+    return toTechnicalMetadata(null, file);
+  }
+}
+
+/**
+ * Parse filename for metadata (e.g., "Artist - Title.flac")
+ */
+function parseFilename(filename: string): { title: string; artist: string } {
+  const nameWithoutExt = filename.replace(AUDIO_EXTENSION_PATTERN, '');
+  
+  // Try to parse "Artist - Title" format
+  if (nameWithoutExt.includes(' - ')) {
+    const parts = nameWithoutExt.split(' - ');
+    if (parts.length >= 2) {
+      return {
+        artist: parts[0].trim(),
+        title: parts.slice(1).join(' - ').trim()
+      };
+    }
+  }
+  
+  // Fallback: use filename as title
+  return {
+    title: nameWithoutExt,
+    artist: ''
+  };
+}
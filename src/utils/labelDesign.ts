@@ -0,0 +1,146 @@
+// Labels are drawn square at this size; the player shows them at about a third of it
+export const LABEL_SIZE = 1000;
+export const LABEL_TEMPLATE_URL = '/images/label-blank-template.png';
+
+export const LABEL_FONTS = [
+  { id: 'serif', name: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+  { id: 'sans', name: 'Sans serif', family: 'Helvetica, Arial, sans-serif' },
+  { id: 'mono', name: 'Typewriter', family: '"Courier New", Courier, monospace' },
+] as const;
+
+export type LabelFontId = (typeof LABEL_FONTS)[number]['id'];
+
+export interface LabelDesign {
+  title: string;
+  artist: string;
+  /** Empty leaves the side off. */
+  side: string;
+  catalogueNumber: string;
+  /** Runs around the rim, e.g. a label name or "Made in England". */
+  curvedText: string;
+  curvedTextPosition: 'top' | 'bottom';
+  font: LabelFontId;
+  textColour: string;
+}
+
+export const DEFAULT_LABEL_DESIGN: LabelDesign = {
+  title: '',
+  artist: '',
+  side: 'A',
+  catalogueNumber: '',
+  curvedText: '',
+  curvedTextPosition: 'top',
+  font: 'serif',
+  textColour: '#1a1a1a',
+};
+
+// Stands in for the template if it fails to load
+const FALLBACK_PAPER = '#f3ecdc';
+
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${src}`));
+    image.src = src;
+  });
+}
+
+/** Sets the font, shrinking it until the text fits `maxWidth`. */
+function fitFont(ctx: CanvasRenderingContext2D, text: string, weight: string, size: number, family: string, maxWidth: number) {
+  let fontSize = size;
+  ctx.font = `${weight} ${fontSize}px ${family}`;
+  while (fontSize > 12 && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    ctx.font = `${weight} ${fontSize}px ${family}`;
+  }
+}
+
+/** Letters set one by one along a circle, reading left to right over the top or under the bottom. */
+function drawCurvedText(ctx: CanvasRenderingContext2D, text: string, radius: number, position: 'top' | 'bottom') {
+  const widths = Array.from(text).map((char) => ctx.measureText(char).width);
+  const totalAngle = widths.reduce((sum, width) => sum + width, 0) / radius;
+  const direction = position === 'top' ? 1 : -1;
+
+  let angle = -direction * totalAngle / 2;
+  Array.from(text).forEach((char, index) => {
+    const step = widths[index] / radius;
+    angle += direction * step / 2;
+    ctx.save();
+    ctx.rotate(angle);
+    ctx.fillText(char, 0, -direction * radius);
+    ctx.restore();
+    angle += direction * step / 2;
+  });
+}
+
+/** Paints the design onto the template. Redraws from scratch, so it's safe to call on every edit. */
+export function drawLabel(
+  canvas: HTMLCanvasElement,
+  design: LabelDesign,
+  template: HTMLImageElement | null,
+  logo: HTMLImageElement | null
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  canvas.width = LABEL_SIZE;
+  canvas.height = LABEL_SIZE;
+  const radius = LABEL_SIZE / 2;
+  const family = LABEL_FONTS.find((font) => font.id === design.font)?.family ?? LABEL_FONTS[0].family;
+
+  ctx.clearRect(0, 0, LABEL_SIZE, LABEL_SIZE);
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(radius, radius, radius, 0, Math.PI * 2);
+  ctx.clip();
+  if (template) {
+    ctx.drawImage(template, 0, 0, LABEL_SIZE, LABEL_SIZE);
+  } else {
+    ctx.fillStyle = FALLBACK_PAPER;
+    ctx.fillRect(0, 0, LABEL_SIZE, LABEL_SIZE);
+  }
+
+  ctx.translate(radius, radius);
+  ctx.fillStyle = design.textColour;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (logo) {
+    const box = radius * 0.3;
+    const scale = Math.min(box / logo.naturalWidth, box / logo.naturalHeight);
+    const width = logo.naturalWidth * scale;
+    const height = logo.naturalHeight * scale;
+    ctx.drawImage(logo, -width / 2, -radius * 0.55 - height / 2, width, height);
+  }
+
+  if (design.title) {
+    fitFont(ctx, design.title, 'bold', radius * 0.14, family, radius * 1.3);
+    ctx.fillText(design.title, 0, -radius * 0.24);
+  }
+
+  if (design.artist) {
+    fitFont(ctx, design.artist, 'normal', radius * 0.11, family, radius * 1.2);
+    ctx.fillText(design.artist, 0, radius * 0.26);
+  }
+
+  // Either side of the spindle hole
+  if (design.catalogueNumber) {
+    fitFont(ctx, design.catalogueNumber, 'normal', radius * 0.07, family, radius * 0.5);
+    ctx.fillText(design.catalogueNumber, -radius * 0.55, 0);
+  }
+
+  if (design.side) {
+    fitFont(ctx, `SIDE ${design.side}`, 'bold', radius * 0.09, family, radius * 0.5);
+    ctx.fillText(`SIDE ${design.side}`, radius * 0.55, 0);
+  }
+
+  if (design.curvedText) {
+    // At most about two thirds of the way round
+    fitFont(ctx, design.curvedText, 'bold', radius * 0.07, family, radius * 0.84 * Math.PI * 1.3);
+    drawCurvedText(ctx, design.curvedText, radius * 0.84, design.curvedTextPosition);
+  }
+
+  ctx.restore();
+}
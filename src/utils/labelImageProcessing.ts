@@ -0,0 +1,115 @@
+// Sizes stored for each label; the player picks one with srcset
+export const LABEL_VARIANT_WIDTHS = [256, 512, 1024];
+// A 7.24mm spindle hole through a 100mm label
+const SPINDLE_HOLE_RATIO = 0.0724;
+export const MAX_LABEL_ZOOM = 4;
+// The label covers about a quarter of the deck's width, which tops out at 1200px
+export const LABEL_SIZES = '(min-width: 1200px) 320px, 27vw';
+
+/** Where the circle sits on the source image. */
+export interface LabelCrop {
+  /** 1 fits the circle to the image's short side. */
+  zoom: number;
+  /** Degrees clockwise. */
+  rotation: number;
+  /** Circle centre's shift from the image centre, as fractions of the circle's diameter. */
+  offsetX: number;
+  offsetY: number;
+}
+
+export const DEFAULT_LABEL_CROP: LabelCrop = { zoom: 1, rotation: 0, offsetX: 0, offsetY: 0 };
+
+/** A stored size of a label, as saved in `label_images.variants`. */
+export interface LabelImageVariant {
+  width: number;
+  url: string;
+}
+
+export interface RenderedLabelVariant {
+  width: number;
+  blob: Blob;
+}
+
+export type LabelSource = HTMLImageElement | HTMLCanvasElement;
+
+const sourceSize = (source: LabelSource) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/** Keeps the circle on the image so the label never has empty corners. */
+export function clampLabelCrop(crop: LabelCrop, source: LabelSource): LabelCrop {
+  const { width, height } = sourceSize(source);
+  const zoom = Math.min(MAX_LABEL_ZOOM, Math.max(1, crop.zoom));
+  const diameter = Math.min(width, height) / zoom;
+  const maxX = (width - diameter) / 2 / diameter;
+  const maxY = (height - diameter) / 2 / diameter;
+  return {
+    zoom,
+    rotation: crop.rotation,
+    offsetX: Math.min(maxX, Math.max(-maxX, crop.offsetX)),
+    offsetY: Math.min(maxY, Math.max(-maxY, crop.offsetY)),
+  };
+}
+
+/** Draws the cropped, rotated circle with the spindle hole punched through. */
+export function drawLabelCrop(canvas: HTMLCanvasElement, source: LabelSource, crop: LabelCrop, size: number) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  canvas.width = size;
+  canvas.height = size;
+  const { width, height } = sourceSize(source);
+  const diameter = Math.min(width, height) / crop.zoom;
+  const scale = size / diameter;
+
+  ctx.clearRect(0, 0, size, size);
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+  ctx.clip();
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate((crop.rotation * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.translate(-width / 2 - crop.offsetX * diameter, -height / 2 - crop.offsetY * diameter);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, (size * SPINDLE_HOLE_RATIO) / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+/**
+ * Renders every stored size as WebP. Browsers that can't encode WebP hand back
+ * PNG instead, so check each blob's type rather than assuming.
+ */
+export async function renderLabelVariants(source: LabelSource, crop: LabelCrop) {
+  const canvas = document.createElement('canvas');
+  const variants: RenderedLabelVariant[] = [];
+
+  for (const width of LABEL_VARIANT_WIDTHS) {
+    drawLabelCrop(canvas, source, crop, width);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/webp', 0.9));
+    if (!blob) throw new Error('The label could not be rendered');
+    variants.push({ width, blob });
+  }
+
+  return variants;
+}
+
+/** `srcset` for a label's stored sizes; undefined for labels saved before there were any. */
+export const labelSrcSet = (variants: LabelImageVariant[] | null | undefined) =>
+  variants && variants.length > 0
+    ? variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ')
+    : undefined;
+
+/** Smallest stored size, for thumbnails; the image itself for labels saved before there were sizes. */
+export const labelThumbnailUrl = (imageUrl: string, variants: LabelImageVariant[] | null | undefined) =>
+  variants && variants.length > 0
+    ? variants.reduce((smallest, variant) => (variant.width < smallest.width ? variant : smallest)).url
+    : imageUrl;
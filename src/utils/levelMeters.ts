@@ -0,0 +1,299 @@
+import type { PlayerMeterStyle } from '@/config/playerThemes';
+
+export interface MeterColours {
+  face: string;
+  ink: string;
+  low: string;
+  mid: string;
+  peak: string;
+}
+
+/** What the meters currently show; carried between frames for ballistics. */
+export interface MeterReading {
+  /** VU per channel, -20 .. +3. */
+  vu: [number, number];
+  /** Peak level in dBFS per channel, and the held maximum. */
+  peak: [number, number];
+  peakHold: [number, number];
+  peakHoldAge: [number, number];
+  /** Spectrum bands, 0 .. 1. */
+  bands: number[];
+}
+
+// 0 VU sits at -18 dBFS, the usual line-up level for digital sources
+const VU_REFERENCE_DBFS = -18;
+const VU_MIN = -20;
+const VU_MAX = 3;
+const VU_TICKS = [-20, -10, -7, -5, -3, -2, -1, 0, 1, 2, 3];
+// The needle swings ±50° either side of vertical
+const VU_SWEEP = (50 * Math.PI) / 180;
+// A real VU needle takes ~300ms to settle
+const VU_TIME_CONSTANT = 0.1;
+
+const LED_MIN_DBFS = -48;
+const LED_SEGMENTS = 20;
+const LED_MID_DBFS = -18;
+const LED_PEAK_DBFS = -6;
+const LED_RELEASE_DB_PER_SECOND = 24;
+const PEAK_HOLD_SECONDS = 1;
+
+const SPECTRUM_BANDS = 28;
+const SPECTRUM_MIN_HZ = 40;
+const SPECTRUM_MAX_HZ = 16000;
+const SPECTRUM_MIN_DB = -90;
+const SPECTRUM_MAX_DB = -20;
+const SPECTRUM_RELEASE_PER_SECOND = 1.5;
+
+const SILENCE_DBFS = -100;
+
+export const createMeterReading = (): MeterReading => ({
+  vu: [VU_MIN, VU_MIN],
+  peak: [SILENCE_DBFS, SILENCE_DBFS],
+  peakHold: [SILENCE_DBFS, SILENCE_DBFS],
+  peakHoldAge: [0, 0],
+  bands: new Array(SPECTRUM_BANDS).fill(0),
+});
+
+/** True once every meter has fallen back to rest. */
+export const isMeterAtRest = (reading: MeterReading) =>
+  reading.vu.every((value) => value <= VU_MIN + 0.05) &&
+  reading.peak.every((value) => value <= LED_MIN_DBFS) &&
+  reading.peakHold.every((value) => value <= LED_MIN_DBFS) &&
+  reading.bands.every((value) => value <= 0.001);
+
+/** Reads the theme's `--meter-*` tokens off the document root. */
+export const readMeterColours = (): MeterColours => {
+  const styles = getComputedStyle(document.documentElement);
+  const token = (name: string) => styles.getPropertyValue(`--meter-${name}`).trim();
+  return { face: token('face'), ink: token('ink'), low: token('low'), mid: token('mid'), peak: token('peak') };
+};
+
+// Sample buffers are reused frame to frame rather than allocated 60 times a second
+const buffers = new WeakMap<AnalyserNode, { samples: Float32Array; spectrum: Float32Array }>();
+
+const buffersFor = (analyser: AnalyserNode) => {
+  let cached = buffers.get(analyser);
+  if (!cached) {
+    cached = {
+      samples: new Float32Array(analyser.fftSize),
+      spectrum: new Float32Array(analyser.frequencyBinCount),
+    };
+    buffers.set(analyser, cached);
+  }
+  return cached;
+};
+
+const toDb = (amplitude: number) => (amplitude > 0 ? 20 * Math.log10(amplitude) : SILENCE_DBFS);
+
+const measure = (analyser: AnalyserNode) => {
+  const { samples } = buffersFor(analyser);
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  let max = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+    max = Math.max(max, Math.abs(samples[i]));
+  }
+  return { rms: toDb(Math.sqrt(sum / samples.length)), peak: toDb(max) };
+};
+
+const readSpectrum = (left: AnalyserNode, right: AnalyserNode) => {
+  const spectrum = [buffersFor(left).spectrum, buffersFor(right).spectrum];
+  left.getFloatFrequencyData(spectrum[0]);
+  right.getFloatFrequencyData(spectrum[1]);
+  const hzPerBin = left.context.sampleRate / left.fftSize;
+  const ratio = SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ;
+  const bands: number[] = [];
+  for (let band = 0; band < SPECTRUM_BANDS; band++) {
+    // Log-spaced bands, like the ear hears them
+    const from = Math.floor((SPECTRUM_MIN_HZ * ratio ** (band / SPECTRUM_BANDS)) / hzPerBin);
+    const to = Math.max(from + 1, Math.floor((SPECTRUM_MIN_HZ * ratio ** ((band + 1) / SPECTRUM_BANDS)) / hzPerBin));
+    let loudest = -Infinity;
+    for (let bin = from; bin < to && bin < spectrum[0].length; bin++) {
+      loudest = Math.max(loudest, (spectrum[0][bin] + spectrum[1][bin]) / 2);
+    }
+    const level = (loudest - SPECTRUM_MIN_DB) / (SPECTRUM_MAX_DB - SPECTRUM_MIN_DB);
+    bands.push(Math.min(1, Math.max(0, level)));
+  }
+  return bands;
+};
+
+/**
+ * Advances the meters by `dt` seconds towards the analysers' current levels.
+ * Without `ballistics` they jump straight to the new levels (reduced motion).
+ */
+export const updateMeterReading = (
+  reading: MeterReading,
+  analyser: { left: AnalyserNode; right: AnalyserNode } | null,
+  dt: number,
+  ballistics: boolean
+) => {
+  const nodes = analyser ? [analyser.left, analyser.right] : null;
+
+  for (let channel = 0; channel < 2; channel++) {
+    const level = nodes ? measure(nodes[channel]) : { rms: SILENCE_DBFS, peak: SILENCE_DBFS };
+
+    const vu = Math.min(VU_MAX, Math.max(VU_MIN, level.rms - VU_REFERENCE_DBFS));
+    reading.vu[channel] = ballistics
+      ? reading.vu[channel] + (vu - reading.vu[channel]) * (1 - Math.exp(-dt / VU_TIME_CONSTANT))
+      : vu;
+
+    reading.peak[channel] = ballistics
+      ? Math.max(level.peak, reading.peak[channel] - LED_RELEASE_DB_PER_SECOND * dt)
+      : level.peak;
+    reading.peakHoldAge[channel] += dt;
+    if (reading.peak[channel] >= reading.peakHold[channel] || reading.peakHoldAge[channel] > PEAK_HOLD_SECONDS) {
+      reading.peakHold[channel] = reading.peak[channel];
+      reading.peakHoldAge[channel] = 0;
+    }
+  }
+
+  const bands = nodes
+    ? readSpectrum(nodes[0], nodes[1])
+    : reading.bands.map(() => 0);
+  reading.bands = bands.map((level, band) =>
+    ballistics ? Math.max(level, reading.bands[band] - SPECTRUM_RELEASE_PER_SECOND * dt) : level
+  );
+};
+
+const hsl = (token: string, alpha = 1) => `hsl(${token} / ${alpha})`;
+
+const vuPosition = (vu: number) => {
+  // VU scales are linear in voltage, which bunches up the low end
+  const toVoltage = (db: number) => 10 ** (db / 20);
+  return (toVoltage(vu) - toVoltage(VU_MIN)) / (toVoltage(VU_MAX) - toVoltage(VU_MIN));
+};
+
+const drawVu = (ctx: CanvasRenderingContext2D, width: number, height: number, reading: MeterReading, colours: MeterColours) => {
+  const gap = width * 0.04;
+  const meterWidth = (width - gap) / 2;
+
+  for (let channel = 0; channel < 2; channel++) {
+    const x = channel * (meterWidth + gap);
+    ctx.fillStyle = hsl(colours.face);
+    ctx.beginPath();
+    ctx.roundRect(x, 0, meterWidth, height, 6);
+    ctx.fill();
+
+    const cx = x + meterWidth / 2;
+    const cy = height * 1.05;
+    const radius = height * 0.82;
+    const angleOf = (vu: number) => -Math.PI / 2 - VU_SWEEP + vuPosition(vu) * VU_SWEEP * 2;
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = hsl(colours.ink);
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, angleOf(VU_MIN), angleOf(0));
+    ctx.stroke();
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = hsl(colours.peak);
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, angleOf(0), angleOf(VU_MAX));
+    ctx.stroke();
+
+    ctx.lineWidth = 1;
+    ctx.font = `${Math.round(height * 0.11)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    VU_TICKS.forEach((tick) => {
+      const angle = angleOf(tick);
+      const inner = radius - height * 0.08;
+      ctx.strokeStyle = hsl(tick > 0 ? colours.peak : colours.ink);
+      ctx.beginPath();
+      ctx.moveTo(cx + Math.cos(angle) * inner, cy + Math.sin(angle) * inner);
+      ctx.lineTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+      ctx.stroke();
+      if (tick === -20 || tick === -10 || tick === -5 || tick === 0 || tick === 3) {
+        const label = radius + height * 0.1;
+        ctx.fillStyle = hsl(tick > 0 ? colours.peak : colours.ink);
+        ctx.fillText(tick > 0 ? `+${tick}` : String(tick), cx + Math.cos(angle) * label, cy + Math.sin(angle) * label);
+      }
+    });
+
+    ctx.fillStyle = hsl(colours.ink, 0.7);
+    ctx.fillText(channel === 0 ? 'VU  L' : 'VU  R', cx, height * 0.62);
+
+    const needle = angleOf(reading.vu[channel]);
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = hsl(colours.ink);
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.lineTo(cx + Math.cos(needle) * (radius + height * 0.04), cy + Math.sin(needle) * (radius + height * 0.04));
+    ctx.stroke();
+  }
+};
+
+const segmentColour = (db: number, colours: MeterColours) =>
+  db > LED_PEAK_DBFS ? colours.peak : db > LED_MID_DBFS ? colours.mid : colours.low;
+
+const drawLed = (ctx: CanvasRenderingContext2D, width: number, height: number, reading: MeterReading, colours: MeterColours) => {
+  ctx.fillStyle = hsl(colours.face);
+  ctx.beginPath();
+  ctx.roundRect(0, 0, width, height, 6);
+  ctx.fill();
+
+  const padding = height * 0.14;
+  const labelWidth = height * 0.2;
+  const rowHeight = (height - padding * 3) / 2;
+  const segmentGap = 2;
+  const segmentWidth = (width - padding * 2 - labelWidth - segmentGap * (LED_SEGMENTS - 1)) / LED_SEGMENTS;
+  const range = -LED_MIN_DBFS;
+
+  ctx.font = `${Math.round(rowHeight * 0.7)}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  for (let channel = 0; channel < 2; channel++) {
+    const y = padding + channel * (rowHeight + padding);
+    ctx.fillStyle = hsl(colours.ink, 0.7);
+    ctx.fillText(channel === 0 ? 'L' : 'R', padding, y + rowHeight / 2);
+
+    const holdSegment = Math.floor(((reading.peakHold[channel] - LED_MIN_DBFS) / range) * LED_SEGMENTS) - 1;
+    for (let segment = 0; segment < LED_SEGMENTS; segment++) {
+      const threshold = LED_MIN_DBFS + ((segment + 1) / LED_SEGMENTS) * range;
+      const lit = reading.peak[channel] >= threshold || segment === holdSegment;
+      ctx.fillStyle = hsl(segmentColour(threshold, colours), lit ? 1 : 0.14);
+      ctx.fillRect(padding + labelWidth + segment * (segmentWidth + segmentGap), y, segmentWidth, rowHeight);
+    }
+  }
+};
+
+const drawSpectrum = (ctx: CanvasRenderingContext2D, width: number, height: number, reading: MeterReading, colours: MeterColours) => {
+  ctx.fillStyle = hsl(colours.face);
+  ctx.beginPath();
+  ctx.roundRect(0, 0, width, height, 6);
+  ctx.fill();
+
+  const padding = height * 0.1;
+  const gap = 2;
+  const barWidth = (width - padding * 2 - gap * (reading.bands.length - 1)) / reading.bands.length;
+  const floor = height - padding;
+  const gradient = ctx.createLinearGradient(0, floor, 0, padding);
+  gradient.addColorStop(0, hsl(colours.low));
+  gradient.addColorStop(0.7, hsl(colours.mid));
+  gradient.addColorStop(1, hsl(colours.peak));
+
+  ctx.fillStyle = gradient;
+  reading.bands.forEach((level, band) => {
+    const barHeight = Math.max(1, level * (floor - padding));
+    ctx.fillRect(padding + band * (barWidth + gap), floor - barHeight, barWidth, barHeight);
+  });
+};
+
+/** Paints the reading in the given style; the canvas is cleared first. */
+export const drawMeter = (
+  canvas: HTMLCanvasElement,
+  style: PlayerMeterStyle,
+  reading: MeterReading,
+  colours: MeterColours
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const scale = window.devicePixelRatio || 1;
+  const width = canvas.width / scale;
+  const height = canvas.height / scale;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  if (style === 'vu') drawVu(ctx, width, height, reading, colours);
+  else if (style === 'led') drawLed(ctx, width, height, reading, colours);
+  else drawSpectrum(ctx, width, height, reading, colours);
+};
@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Minimal client for Supabase Storage's resumable (TUS 1.0) endpoint. The file
+ * goes up in fixed chunks; the upload URL can be kept and handed back later
+ * (even after a reload) to carry on from the last chunk the server has.
+ */
+
+// Supabase only accepts 6MB chunks (the last one may be shorter)
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  file: Blob;
+  contentType: string;
+  /** Overwrite an object already at `path`, e.g. one a lost earlier attempt finished. */
+  upsert?: boolean;
+  /** Upload URL from an earlier attempt; the upload resumes there if the server still has it. */
+  uploadUrl?: string | null;
+  /** Called once the server has created the upload, so the caller can persist it. */
+  onUploadUrl?: (uploadUrl: string) => void;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+// Same error fetch throws when aborted, so callers can check `error.name === 'AbortError'`
+const abortError = () => new DOMException('Upload aborted', 'AbortError');
+
+const endpoint = () => `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+const authHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    'Tus-Resumable': TUS_VERSION,
+  };
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const createUpload = async ({ bucket, path, file, contentType, upsert }: ResumableUploadOptions) => {
+  const response = await fetch(endpoint(), {
+    method: 'POST',
+    headers: {
+      ...(await authHeaders()),
+      ...(upsert ? { 'x-upsert': 'true' } : {}),
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: bucket,
+        objectName: path,
+        contentType,
+        cacheControl: '3600',
+      }),
+    },
+  });
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start upload (${response.status}) ${await response.text()}`.trim());
+  }
+  return new URL(location, endpoint()).toString();
+};
+
+/** Bytes the server already holds for an upload, or null if it no longer exists. */
+const fetchOffset = async (uploadUrl: string) => {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers: await authHeaders() });
+  if (!response.ok) return null;
+  const offset = Number(response.headers.get('Upload-Offset'));
+  return Number.isFinite(offset) ? offset : null;
+};
+
+// XHR rather than fetch so progress is reported within each chunk
+const sendChunk = (
+  uploadUrl: string,
+  headers: Record<string, string>,
+  chunk: Blob,
+  offset: number,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+) =>
+  new Promise<number>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort);
+    const settle = () => signal?.removeEventListener('abort', handleAbort);
+
+    xhr.onload = () => {
+      settle();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`Upload failed (${xhr.status}) ${xhr.responseText}`.trim()));
+        return;
+      }
+      resolve(Number(xhr.getResponseHeader('Upload-Offset') ?? offset + chunk.size));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new Error('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(abortError());
+    };
+    xhr.send(chunk);
+  });
+
+/** Uploads (or finishes uploading) a file. Rejects with an `AbortError` when `signal` fires. */
+export async function resumableUpload(options: ResumableUploadOptions) {
+  const { file, signal, onUploadUrl, onProgress } = options;
+  const checkAborted = () => {
+    if (signal?.aborted) throw abortError();
+  };
+
+  let uploadUrl = options.uploadUrl ?? null;
+  let offset = uploadUrl ? await fetchOffset(uploadUrl) : null;
+  checkAborted();
+  if (offset === null) {
+    uploadUrl = await createUpload(options);
+    offset = 0;
+    onUploadUrl?.(uploadUrl);
+  }
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    checkAborted();
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+    const chunkStart = offset;
+    offset = await sendChunk(
+      uploadUrl!,
+      await authHeaders(),
+      chunk,
+      offset,
+      (loaded) => onProgress?.(chunkStart + loaded, file.size),
+      signal
+    );
+    onProgress?.(offset, file.size);
+  }
+}
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type StorageBucket = 'tracks' | 'label-images';
+
+export interface StorageObject {
+  bucket: StorageBucket;
+  path: string;
+  size: number;
+  createdAt: string | null;
+}
+
+// Storage's list() is paged and one folder deep
+const PAGE_SIZE = 1000;
+
+/** Every object in a bucket, walking into folders such as `covers/`. */
+export async function listBucketObjects(bucket: StorageBucket, prefix = ''): Promise<StorageObject[]> {
+  const objects: StorageObject[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) throw error;
+
+    for (const entry of data) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      // Folders come back without an id
+      if (entry.id === null) {
+        objects.push(...(await listBucketObjects(bucket, path)));
+      } else if (entry.name !== '.emptyFolderPlaceholder') {
+        objects.push({
+          bucket,
+          path,
+          size: Number(entry.metadata?.size ?? 0),
+          createdAt: entry.created_at ?? null,
+        });
+      }
+    }
+
+    if (data.length < PAGE_SIZE) return objects;
+  }
+}
+
+/** Object path inside `bucket` for one of its public URLs, or null if the URL points elsewhere. */
+export function storagePathFromUrl(url: string | null | undefined, bucket: StorageBucket) {
+  if (!url) return null;
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
+
+/** Removes objects by public URL, ignoring URLs outside the bucket. Storage errors are logged, not thrown. */
+export async function removeStorageObjects(bucket: StorageBucket, urls: (string | null | undefined)[]) {
+  const paths = urls
+    .map((url) => storagePathFromUrl(url, bucket))
+    .filter((path): path is string => path !== null);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(bucket).remove(paths);
+  if (error) console.error(`Could not remove files from ${bucket}:`, error);
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
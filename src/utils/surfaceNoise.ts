@@ -0,0 +1,165 @@
+import type { PlayerThemeSurfaceNoise } from '@/config/playerThemes';
+import type { AudioEngine } from '@/utils/audioEngine';
+
+export type SurfaceNoiseProfile = PlayerThemeSurfaceNoise;
+
+export const DEFAULT_SURFACE_NOISE: SurfaceNoiseProfile = {
+  crackle: 0.3,
+  hiss: 0.2,
+  rumble: 0.15,
+  wow: 0.2,
+  flutter: 0.1,
+};
+
+export interface SurfaceNoise {
+  /** Fades the layer in while the needle is in the groove and out when it lifts. */
+  setActive: (active: boolean) => void;
+  setProfile: (profile: SurfaceNoiseProfile) => void;
+  dispose: () => void;
+}
+
+// Gain of each layer at full intensity
+const CRACKLE_GAIN = 0.5;
+const HISS_GAIN = 0.03;
+const RUMBLE_GAIN = 0.4;
+// Pitch swing (cents) of wow and flutter at full intensity
+const WOW_CENTS = 14;
+const FLUTTER_CENTS = 5;
+// An off-centre record wobbles once per turn; the drive flutters much faster
+const WOW_HZ = 0.55;
+const FLUTTER_HZ = 9;
+const HISS_HIGHPASS_HZ = 3000;
+const RUMBLE_LOWPASS_HZ = 60;
+// Odd lengths so the loops never line up and the repeat isn't noticeable
+const CRACKLE_SECONDS = 11.3;
+const NOISE_SECONDS = 3.7;
+const FADE_SECONDS = 0.15;
+const SMOOTHING_SECONDS = 0.05;
+
+const createBuffer = (context: BaseAudioContext, seconds: number) =>
+  context.createBuffer(1, Math.floor(context.sampleRate * seconds), context.sampleRate);
+
+const whiteNoise = (context: BaseAudioContext) => {
+  const buffer = createBuffer(context, NOISE_SECONDS);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+/** Integrated white noise: mostly low-frequency energy, like a motor or bearing. */
+const brownNoise = (context: BaseAudioContext) => {
+  const buffer = createBuffer(context, NOISE_SECONDS);
+  const data = buffer.getChannelData(0);
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+    data[i] = last * 3.5;
+  }
+  return buffer;
+};
+
+/** Sparse ticks from dust with the odd louder pop from a scratch. */
+const crackle = (context: BaseAudioContext) => {
+  const buffer = createBuffer(context, CRACKLE_SECONDS);
+  const data = buffer.getChannelData(0);
+  const { sampleRate } = context;
+  const ticks = Math.round(CRACKLE_SECONDS * 14);
+  for (let n = 0; n < ticks; n++) {
+    const isPop = Math.random() < 0.06;
+    const length = Math.floor(sampleRate * (isPop ? 0.004 + Math.random() * 0.004 : 0.0004 + Math.random() * 0.001));
+    const amplitude = isPop ? 0.6 + Math.random() * 0.4 : 0.1 + Math.random() * 0.3;
+    const polarity = Math.random() < 0.5 ? -1 : 1;
+    const start = Math.floor(Math.random() * (data.length - length));
+    for (let i = 0; i < length; i++) {
+      const decay = Math.exp((-5 * i) / length);
+      data[start + i] += polarity * amplitude * decay * (isPop ? Math.random() * 2 - 1 : 1);
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Procedural surface character for the record: crackle, hiss and rumble mixed into
+ * the engine input (so tone and volume apply), and wow & flutter fed to its
+ * detune modulation.
+ */
+export function createSurfaceNoise(engine: AudioEngine): SurfaceNoise {
+  const { context, input } = engine.getGraph();
+
+  const master = context.createGain();
+  master.gain.value = 0;
+  master.connect(input);
+
+  const loop = (buffer: AudioBuffer, destination: AudioNode) => {
+    const node = context.createBufferSource();
+    node.buffer = buffer;
+    node.loop = true;
+    node.connect(destination);
+    node.start();
+    return node;
+  };
+
+  const crackleGain = context.createGain();
+  crackleGain.connect(master);
+
+  const hissFilter = context.createBiquadFilter();
+  hissFilter.type = 'highpass';
+  hissFilter.frequency.value = HISS_HIGHPASS_HZ;
+  const hissGain = context.createGain();
+  hissFilter.connect(hissGain).connect(master);
+
+  const rumbleFilter = context.createBiquadFilter();
+  rumbleFilter.type = 'lowpass';
+  rumbleFilter.frequency.value = RUMBLE_LOWPASS_HZ;
+  const rumbleGain = context.createGain();
+  rumbleFilter.connect(rumbleGain).connect(master);
+
+  const loops = [
+    loop(crackle(context), crackleGain),
+    loop(whiteNoise(context), hissFilter),
+    loop(brownNoise(context), rumbleFilter),
+  ];
+
+  // Both oscillators sum into one bus the engine routes to every source's detune
+  const pitchBus = context.createGain();
+  pitchBus.gain.value = 0;
+  const wow = context.createOscillator();
+  wow.frequency.value = WOW_HZ;
+  const wowDepth = context.createGain();
+  wow.connect(wowDepth).connect(pitchBus);
+  const flutter = context.createOscillator();
+  flutter.frequency.value = FLUTTER_HZ;
+  const flutterDepth = context.createGain();
+  flutter.connect(flutterDepth).connect(pitchBus);
+  wow.start();
+  flutter.start();
+  engine.setDetuneModulation(pitchBus);
+
+  const ramp = (param: AudioParam, value: number, seconds = SMOOTHING_SECONDS) => {
+    param.setTargetAtTime(value, context.currentTime, seconds);
+  };
+
+  return {
+    setActive: (active) => {
+      ramp(master.gain, active ? 1 : 0, FADE_SECONDS);
+      ramp(pitchBus.gain, active ? 1 : 0, FADE_SECONDS);
+    },
+
+    setProfile: (profile) => {
+      ramp(crackleGain.gain, profile.crackle * CRACKLE_GAIN);
+      ramp(hissGain.gain, profile.hiss * HISS_GAIN);
+      ramp(rumbleGain.gain, profile.rumble * RUMBLE_GAIN);
+      ramp(wowDepth.gain, profile.wow * WOW_CENTS);
+      ramp(flutterDepth.gain, profile.flutter * FLUTTER_CENTS);
+    },
+
+    dispose: () => {
+      engine.setDetuneModulation(null);
+      [...loops, wow, flutter].forEach((node) => {
+        node.stop();
+        node.disconnect();
+      });
+      master.disconnect();
+    },
+  };
+}
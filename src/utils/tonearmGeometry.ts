@@ -0,0 +1,83 @@
+import type { PlayerThemeGeometry } from '@/config/playerThemes';
+
+export interface TonearmGeometry {
+  /** Arm angle with the stylus in the lead-in groove. */
+  startAngle: number;
+  /** Arm angle with the stylus in the lead-out groove. */
+  endAngle: number;
+  /** Arm angle for a position across the record (0 = lead-in, 1 = lead-out). */
+  angleAt: (fraction: number) => number;
+  /** Position across the record under the stylus at the given arm angle. */
+  fractionAt: (angle: number) => number;
+}
+
+/** Groove radius, as a percentage of the record radius, for a position across the record. */
+export const grooveRadiusPct = (
+  { leadInPct, leadOutPct }: PlayerThemeGeometry['grooves'],
+  fraction: number
+) => leadInPct - (leadInPct - leadOutPct) * fraction;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Models a pivoted arm over a spiral groove. Everything is laid out in deck
+ * units (deck width = 100) so the percentages in the theme can be mixed freely.
+ * The groove radius shrinks linearly with playing time, as it does on a real
+ * record cut at a constant pitch.
+ */
+export function createTonearmGeometry(
+  { base, platter, tonearm, grooves }: Pick<PlayerThemeGeometry, 'base' | 'platter' | 'tonearm' | 'grooves'>,
+  lengthScale = 1
+): TonearmGeometry {
+  const deckHeight = 100 / base.aspectRatio;
+
+  const recordRadius = platter.sizePct / 2;
+  const centreX = platter.leftPct + recordRadius;
+  const centreY = (platter.topPct * deckHeight) / 100 + recordRadius;
+
+  // The tonearm box is sized by width; its height follows the artwork
+  const armHeight = tonearm.widthPct / tonearm.aspectRatio;
+  const pivotX = 100 - tonearm.rightPct - tonearm.widthPct + (tonearm.widthPct * tonearm.pivotXPct) / 100;
+  const pivotY = (tonearm.topPct * deckHeight) / 100 + (armHeight * tonearm.pivotYPct) / 100;
+
+  // Stylus relative to the pivot in the un-rotated artwork, stretched like the image
+  const length = (armHeight * tonearm.armLengthPct) / 100;
+  const offset = toRadians(tonearm.stylusOffsetDeg);
+  const stylusX = -length * Math.sin(offset);
+  const stylusY = length * Math.cos(offset) * lengthScale;
+  const armLength = Math.hypot(stylusX, stylusY);
+  const restDirection = Math.atan2(stylusY, stylusX);
+
+  const toCentreX = centreX - pivotX;
+  const toCentreY = centreY - pivotY;
+  const pivotToCentre = Math.hypot(toCentreX, toCentreY);
+  const centreDirection = Math.atan2(toCentreY, toCentreX);
+
+  const leadIn = (recordRadius * grooves.leadInPct) / 100;
+  const leadOut = (recordRadius * grooves.leadOutPct) / 100;
+
+  const angleAt = (fraction: number) => {
+    const radius = (recordRadius * grooveRadiusPct(grooves, fraction)) / 100;
+    // Law of cosines: angle at the pivot between the platter centre and the stylus
+    const cos = (armLength ** 2 + pivotToCentre ** 2 - radius ** 2) / (2 * armLength * pivotToCentre);
+    const between = Math.acos(Math.max(-1, Math.min(1, cos)));
+    return toDegrees(centreDirection - between - restDirection);
+  };
+
+  const fractionAt = (angle: number) => {
+    const direction = restDirection + toRadians(angle);
+    const radius = Math.hypot(
+      pivotX + armLength * Math.cos(direction) - centreX,
+      pivotY + armLength * Math.sin(direction) - centreY
+    );
+    return leadIn === leadOut ? 0 : (leadIn - radius) / (leadIn - leadOut);
+  };
+
+  return {
+    startAngle: angleAt(0),
+    endAngle: angleAt(1),
+    angleAt,
+    fractionAt,
+  };
+}
@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import { removeStorageObjects, type StorageBucket } from '@/utils/storageObjects';
+import type { LabelImageVariant } from '@/utils/labelImageProcessing';
+
+/** Tracks and label images are soft deleted: `deleted_at` is set and visitors stop seeing them. */
+export type TrashKind = 'track' | 'label';
+
+export interface TrashEntry {
+  kind: TrashKind;
+  id: string;
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const TABLES = { track: 'tracks', label: 'label_images' } as const;
+
+const idsOf = (entries: TrashEntry[], kind: TrashKind) =>
+  entries.filter((entry) => entry.kind === kind).map((entry) => entry.id);
+
+/** Moves rows to the Trash, or back out of it when `deletedAt` is null. */
+export async function setDeletedAt(entries: TrashEntry[], deletedAt: string | null) {
+  for (const kind of ['track', 'label'] as TrashKind[]) {
+    const ids = idsOf(entries, kind);
+    if (ids.length === 0) continue;
+    const { error } = await supabase
+      .from(TABLES[kind])
+      .update({ deleted_at: deletedAt })
+      .in('id', ids);
+    if (error) throw error;
+  }
+}
+
+export const moveToTrash = (entries: TrashEntry[]) => setDeletedAt(entries, new Date().toISOString());
+
+export const restoreFromTrash = (entries: TrashEntry[]) => setDeletedAt(entries, null);
+
+/**
+ * Deletes trashed rows for good, along with their audio, cover and label files.
+ * Rows that were restored in the meantime are left alone.
+ */
+export async function purgeTrash(entries: TrashEntry[]) {
+  const trackIds = idsOf(entries, 'track');
+  if (trackIds.length > 0) {
+    const { data, error } = await supabase
+      .from('tracks')
+      .delete()
+      .in('id', trackIds)
+      .not('deleted_at', 'is', null)
+      .select('audio_url, cover_url');
+    if (error) throw error;
+    // The rows are gone either way; a file left behind shows up in the storage check
+    await removeStorageObjects('tracks', data.map((track) => track.audio_url));
+    await removeStorageObjects('label-images', data.map((track) => track.cover_url));
+  }
+
+  const labelIds = idsOf(entries, 'label');
+  if (labelIds.length > 0) {
+    const { data, error } = await supabase
+      .from('label_images')
+      .delete()
+      .in('id', labelIds)
+      .not('deleted_at', 'is', null)
+      .select('image_url, variants');
+    if (error) throw error;
+    await removeStorageObjects(
+      'label-images',
+      data.flatMap((label) => [
+        label.image_url,
+        ...((label.variants as unknown as LabelImageVariant[] | null) ?? []).map((variant) => variant.url),
+      ])
+    );
+  }
+}
+
+/**
+ * Purges everything past the retention period. The same database function runs
+ * daily from a cron job; this covers a project where the job isn't set up.
+ */
+export async function purgeExpiredTrash() {
+  const { data, error } = await supabase.rpc('purge_expired_trash');
+  if (error) throw error;
+  for (const bucket of ['tracks', 'label-images'] as StorageBucket[]) {
+    await removeStorageObjects(bucket, data.filter((file) => file.bucket === bucket).map((file) => file.url));
+  }
+  return data.length;
+}
@@ -0,0 +1,37 @@
+/**
+ * IndexedDB persistence for the admin upload queue. Files are stored with their
+ * queue entry (IndexedDB can hold Blobs), so unfinished uploads survive a reload
+ * without the admin picking the files again.
+ */
+
+const DB_NAME = 'vinyl-player-uploads';
+const STORE = 'queue';
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadStoredUploads = <T>() => run<T[]>('readonly', (store) => store.getAll());
+
+export const storeUpload = <T extends { id: string }>(entry: T) => run('readwrite', (store) => store.put(entry));
+
+export const removeStoredUpload = (id: string) => run('readwrite', (store) => store.delete(id));
@@ -0,0 +1,212 @@
+import type { VinylStyle } from '@/config/vinylStyles';
+
+// Radii as fractions of the disc radius
+const GROOVE_INNER = 0.34;
+const GROOVE_OUTER = 0.975;
+// Marbling is computed per pixel at this size and scaled up
+const MARBLE_RESOLUTION = 384;
+
+/** Small deterministic PRNG so a given style always paints the same disc. */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function parseHex(colour: string): [number, number, number] {
+  const hex = colour.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex.padEnd(6, '0');
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+}
+
+/** Smooth value noise on a lattice, summed over a few octaves. */
+function createNoise(random: () => number) {
+  const size = 256;
+  const lattice = Float32Array.from({ length: size * size }, random);
+  const at = (x: number, y: number) => lattice[((y & (size - 1)) * size) + (x & (size - 1))];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  const value = (x: number, y: number) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const sx = smooth(x - x0);
+    const sy = smooth(y - y0);
+    const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * sx;
+    const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * sx;
+    return top + (bottom - top) * sy;
+  };
+
+  return (x: number, y: number) => {
+    let sum = 0;
+    let amplitude = 0.5;
+    let frequency = 1;
+    for (let octave = 0; octave < 4; octave++) {
+      sum += amplitude * value(x * frequency, y * frequency);
+      amplitude /= 2;
+      frequency *= 2;
+    }
+    return sum;
+  };
+}
+
+function paintColour(ctx: CanvasRenderingContext2D, radius: number, colour: string) {
+  const [r, g, b] = parseHex(colour);
+  const fill = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+  fill.addColorStop(0, `rgba(${r}, ${g}, ${b}, 0.72)`);
+  fill.addColorStop(0.85, `rgba(${r}, ${g}, ${b}, 0.82)`);
+  fill.addColorStop(1, `rgba(${Math.round(r * 0.6)}, ${Math.round(g * 0.6)}, ${Math.round(b * 0.6)}, 0.92)`);
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, radius * 2, radius * 2);
+}
+
+function paintMarble(ctx: CanvasRenderingContext2D, radius: number, colour: string, accent: string, random: () => number) {
+  const noise = createNoise(random);
+  const base = parseHex(colour);
+  const vein = parseHex(accent);
+  const size = MARBLE_RESOLUTION;
+  const pixels = new ImageData(size, size);
+  const angle = random() * Math.PI;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const u = x / size;
+      const v = y / size;
+      const turbulence = noise(u * 6, v * 6) * 9;
+      // Sine bands bent by turbulence give the folded look of pressed marble
+      const band = 0.5 + 0.5 * Math.sin((u * dx + v * dy) * 14 + turbulence);
+      const mix = Math.pow(band, 3);
+      const i = (y * size + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        pixels.data[i + c] = base[c] + (vein[c] - base[c]) * mix;
+      }
+      pixels.data[i + 3] = 255;
+    }
+  }
+
+  const buffer = document.createElement('canvas');
+  buffer.width = size;
+  buffer.height = size;
+  buffer.getContext('2d')?.putImageData(pixels, 0, 0);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(buffer, 0, 0, radius * 2, radius * 2);
+}
+
+function paintSplatter(ctx: CanvasRenderingContext2D, radius: number, colour: string, accent: string, random: () => number) {
+  ctx.fillStyle = colour;
+  ctx.fillRect(0, 0, radius * 2, radius * 2);
+  ctx.fillStyle = accent;
+
+  const splats = 18 + Math.floor(random() * 10);
+  for (let i = 0; i < splats; i++) {
+    // Favour the grooved area; the label covers the middle anyway
+    const distance = radius * (GROOVE_INNER + random() * (GROOVE_OUTER - GROOVE_INNER));
+    const heading = random() * Math.PI * 2;
+    const cx = radius + Math.cos(heading) * distance;
+    const cy = radius + Math.sin(heading) * distance;
+    const size = radius * (0.012 + random() * 0.05);
+
+    ctx.beginPath();
+    ctx.arc(cx, cy, size, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Droplets thrown out around the main blob
+    const droplets = 4 + Math.floor(random() * 10);
+    for (let d = 0; d < droplets; d++) {
+      const spread = size * (1.2 + random() * 3);
+      const direction = random() * Math.PI * 2;
+      ctx.beginPath();
+      ctx.arc(cx + Math.cos(direction) * spread, cy + Math.sin(direction) * spread, size * (0.08 + random() * 0.3), 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+}
+
+function paintPicture(ctx: CanvasRenderingContext2D, radius: number, image: HTMLImageElement) {
+  // Cover the disc, cropping the longer side
+  const scale = (radius * 2) / Math.min(image.naturalWidth, image.naturalHeight);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  ctx.drawImage(image, radius - width / 2, radius - height / 2, width, height);
+}
+
+/** Fine concentric grooves, the clear outer lip and a touch of edge shading. */
+function paintGrooves(ctx: CanvasRenderingContext2D, radius: number, strength: number, random: () => number) {
+  ctx.lineWidth = 1;
+  for (let r = radius * GROOVE_INNER; r < radius * GROOVE_OUTER; r += 1.5) {
+    const light = random() > 0.5;
+    ctx.strokeStyle = light
+      ? `rgba(255, 255, 255, ${0.035 * strength})`
+      : `rgba(0, 0, 0, ${(0.08 + random() * 0.05) * strength})`;
+    ctx.beginPath();
+    ctx.arc(radius, radius, r, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  const edge = ctx.createRadialGradient(radius, radius, radius * GROOVE_OUTER, radius, radius, radius);
+  edge.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  edge.addColorStop(0.6, 'rgba(0, 0, 0, 0.25)');
+  edge.addColorStop(1, 'rgba(0, 0, 0, 0.55)');
+  ctx.fillStyle = edge;
+  ctx.fillRect(0, 0, radius * 2, radius * 2);
+}
+
+/**
+ * Paints a vinyl disc of the given style onto a square canvas. Black discs use
+ * theme artwork instead and are left to the caller. Picture discs need their
+ * artwork already loaded; without it they fall back to plain black vinyl.
+ */
+export function paintVinyl(canvas: HTMLCanvasElement, style: VinylStyle, image?: HTMLImageElement) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const radius = canvas.width / 2;
+  const random = createRandom(hashString(`${style.kind}:${style.colour}:${style.accent}`));
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(radius, radius, radius, 0, Math.PI * 2);
+  ctx.clip();
+
+  switch (style.kind) {
+    case 'colour':
+      paintColour(ctx, radius, style.colour ?? '#000000');
+      break;
+    case 'marbled':
+      paintMarble(ctx, radius, style.colour ?? '#000000', style.accent ?? '#ffffff', random);
+      break;
+    case 'splatter':
+      paintSplatter(ctx, radius, style.colour ?? '#000000', style.accent ?? '#ffffff', random);
+      break;
+    case 'picture':
+      if (image) {
+        paintPicture(ctx, radius, image);
+      } else {
+        ctx.fillStyle = '#111111';
+        ctx.fillRect(0, 0, radius * 2, radius * 2);
+      }
+      break;
+    default:
+      ctx.fillStyle = '#111111';
+      ctx.fillRect(0, 0, radius * 2, radius * 2);
+  }
+
+  // The print on a picture disc sits under clear vinyl, so its grooves barely show
+  paintGrooves(ctx, radius, style.kind === 'picture' ? 0.4 : 1, random);
+  ctx.restore();
+}
@@ -0,0 +1,36 @@
+/** Buckets stored per track; plenty for a full-width scrubber without bloating the row. */
+export const WAVEFORM_PEAK_COUNT = 400;
+
+/**
+ * Decodes an audio file and reduces it to `count` peak levels (0..1), scaled so
+ * the loudest bucket fills the height. Returns null if the browser can't decode it;
+ * the player then falls back to the plain progress bar.
+ */
+export async function computeWaveformPeaks(file: Blob, count = WAVEFORM_PEAK_COUNT): Promise<number[] | null> {
+  // The sample rate only matters for decoding; the peaks are resampled anyway
+  const context = new OfflineAudioContext(1, 1, 44100);
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    const bucketSize = Math.max(1, Math.floor(buffer.length / count));
+
+    const peaks: number[] = [];
+    for (let bucket = 0; bucket < count; bucket++) {
+      const start = bucket * bucketSize;
+      const end = Math.min(buffer.length, start + bucketSize);
+      let peak = 0;
+      for (const data of channels) {
+        for (let i = start; i < end; i++) {
+          peak = Math.max(peak, Math.abs(data[i]));
+        }
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks) || 1;
+    return peaks.map((peak) => Math.round((peak / loudest) * 1000) / 1000);
+  } catch (error) {
+    console.error('Could not compute waveform peaks:', error);
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Called once a day by the `purge-expired-trash` cron job. Expired rows go in the
+ * database function; their files can only be removed through the Storage API.
+ */
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Same as storagePathFromUrl in the app
+const storagePath = (url: string, bucket: string) => {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+};
+
+Deno.serve(async (req) => {
+  // Only the cron job, which sends the service role key
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { data, error } = await supabase.rpc('purge_expired_trash');
+  if (error) {
+    console.error('Could not purge expired Trash:', error);
+    return new Response(error.message, { status: 500 });
+  }
+
+  const files = (data ?? []) as { bucket: string; url: string }[];
+  for (const bucket of new Set(files.map((file) => file.bucket))) {
+    const paths = files
+      .filter((file) => file.bucket === bucket)
+      .map((file) => storagePath(file.url, bucket))
+      .filter((path): path is string => path !== null);
+    if (paths.length === 0) continue;
+    // The rows are gone either way; a file left behind shows up in the storage check
+    const { error: removeError } = await supabase.storage.from(bucket).remove(paths);
+    if (removeError) console.error(`Could not remove files from ${bucket}:`, removeError);
+  }
+
+  return Response.json({ purgedFiles: files.length });
+});
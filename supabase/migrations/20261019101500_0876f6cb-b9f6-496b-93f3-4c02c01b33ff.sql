@@ -0,0 +1,6 @@
+-- Group tracks into record sides; order_index orders tracks within a side
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS side text NOT NULL DEFAULT 'A';
+
+ALTER TABLE public.tracks
+ADD CONSTRAINT tracks_side_check CHECK (side IN ('A', 'B'));
@@ -0,0 +1,3 @@
+-- Site-wide record style chosen in the admin; NULL falls back to the theme's default
+ALTER TABLE public.player_settings
+  ADD COLUMN vinyl_style jsonb;
@@ -0,0 +1,6 @@
+-- Speed each track was cut at: 33 (33 1/3), 45 or 78 RPM. The admin sets it per track or a whole side at once
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS rpm smallint NOT NULL DEFAULT 33;
+
+ALTER TABLE public.tracks
+ADD CONSTRAINT tracks_rpm_check CHECK (rpm IN (33, 45, 78));
@@ -0,0 +1,3 @@
+-- Amplitude envelope for the waveform scrubber, computed in the browser at upload (0..1 per bucket)
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS waveform_peaks real[];
@@ -0,0 +1,7 @@
+-- Technical details read from the file at upload, so the player never has to probe each track for its length
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS duration_seconds real,
+ADD COLUMN IF NOT EXISTS bitrate integer,
+ADD COLUMN IF NOT EXISTS sample_rate integer,
+ADD COLUMN IF NOT EXISTS channels smallint,
+ADD COLUMN IF NOT EXISTS file_size bigint;
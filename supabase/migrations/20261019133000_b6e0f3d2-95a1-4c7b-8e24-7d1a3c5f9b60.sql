@@ -0,0 +1,3 @@
+-- Uploads are no longer MP3 only; the format is sniffed from the file header at upload
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS mime_type text NOT NULL DEFAULT 'audio/mpeg';
@@ -0,0 +1,10 @@
+-- Tag details read from the file at upload (and editable by the admin). Cover art is stored in label-images/covers
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS album text,
+ADD COLUMN IF NOT EXISTS track_number smallint,
+ADD COLUMN IF NOT EXISTS disc_number smallint,
+ADD COLUMN IF NOT EXISTS year smallint,
+ADD COLUMN IF NOT EXISTS genre text,
+ADD COLUMN IF NOT EXISTS composer text,
+ADD COLUMN IF NOT EXISTS credits text,
+ADD COLUMN IF NOT EXISTS cover_url text;
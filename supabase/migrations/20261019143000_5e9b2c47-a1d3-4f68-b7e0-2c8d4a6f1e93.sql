@@ -0,0 +1,26 @@
+-- Soft delete: deleted rows sit in the admin's Trash until restored or purged
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.label_images
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS tracks_deleted_at_idx ON public.tracks (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS label_images_deleted_at_idx ON public.label_images (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Days a deleted item is kept before it is purged for good
+ALTER TABLE public.player_settings
+ADD COLUMN IF NOT EXISTS trash_retention_days integer NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Visitors only see what isn't in the Trash; admins see both
+DROP POLICY IF EXISTS "Anyone can view tracks" ON public.tracks;
+DROP POLICY IF EXISTS "Public can view tracks" ON public.tracks;
+CREATE POLICY "Anyone can view tracks"
+  ON public.tracks FOR SELECT
+  USING (deleted_at IS NULL OR public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Anyone can view label images" ON public.label_images;
+CREATE POLICY "Anyone can view label images"
+  ON public.label_images FOR SELECT
+  USING (deleted_at IS NULL OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,32 @@
+-- Renumbers the tracks in one statement, so a reorder lands all at once or not at all.
+-- track_ids is the new play order; tracks not listed keep their place after them.
+CREATE OR REPLACE FUNCTION public.reorder_tracks(track_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reorder tracks' USING ERRCODE = '42501';
+  END IF;
+
+  WITH ordered AS (
+    SELECT id, row_number() OVER (
+      ORDER BY array_position(track_ids, id) NULLS LAST, order_index, created_at
+    ) - 1 AS new_index
+    FROM public.tracks
+  )
+  UPDATE public.tracks
+  SET order_index = ordered.new_index
+  FROM ordered
+  WHERE tracks.id = ordered.id
+    AND tracks.order_index IS DISTINCT FROM ordered.new_index;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reorder_tracks(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reorder_tracks(uuid[]) TO authenticated;
+
+-- Visitors pick up reorders (and other track edits) without reloading
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tracks;
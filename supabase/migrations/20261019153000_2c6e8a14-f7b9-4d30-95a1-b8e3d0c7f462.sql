@@ -0,0 +1,60 @@
+-- A collection of records. Each track belongs to one record; visitors pick a record from the crate
+CREATE TABLE IF NOT EXISTS public.records (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title text NOT NULL,
+  artist text NOT NULL DEFAULT '',
+  sleeve_url text,
+  -- Null falls back to the site-wide active label
+  label_image_id uuid REFERENCES public.label_images(id) ON DELETE SET NULL,
+  -- Null falls back to the site-wide record style
+  vinyl_style jsonb,
+  order_index integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+GRANT SELECT ON public.records TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.records TO authenticated;
+GRANT ALL ON public.records TO service_role;
+
+ALTER TABLE public.records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view records"
+ON public.records FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert records"
+ON public.records FOR INSERT TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update records"
+ON public.records FOR UPDATE TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete records"
+ON public.records FOR DELETE TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_records_updated_at
+BEFORE UPDATE ON public.records
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deleting a record leaves its tracks unassigned rather than deleting them
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS record_id uuid REFERENCES public.records(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tracks_record_id_idx ON public.tracks (record_id);
+
+-- Until now the whole site was one record: keep existing tracks together on it
+DO $$
+DECLARE
+  first_record uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.tracks WHERE record_id IS NULL)
+     AND NOT EXISTS (SELECT 1 FROM public.records) THEN
+    INSERT INTO public.records (title) VALUES ('My Record') RETURNING id INTO first_record;
+    UPDATE public.tracks SET record_id = first_record WHERE record_id IS NULL;
+  END IF;
+END $$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.records;
@@ -0,0 +1,6 @@
+-- Label per track; a side's label is set on every track on it. Null falls back to the
+-- record's label, then the site-wide active one
+ALTER TABLE public.tracks
+ADD COLUMN IF NOT EXISTS label_image_id uuid REFERENCES public.label_images(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tracks_label_image_id_idx ON public.tracks (label_image_id);
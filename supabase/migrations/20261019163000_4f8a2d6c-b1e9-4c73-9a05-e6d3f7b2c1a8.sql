@@ -0,0 +1,4 @@
+-- Downscaled copies of each label, [{ "width": 256, "url": "..." }, ...] smallest first.
+-- image_url stays the largest one; labels uploaded before this have none
+ALTER TABLE public.label_images
+ADD COLUMN IF NOT EXISTS variants jsonb;
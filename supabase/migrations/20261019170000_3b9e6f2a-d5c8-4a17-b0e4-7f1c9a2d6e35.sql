@@ -0,0 +1,38 @@
+-- A side's label, kept apart from the tracks so their own labels survive and tracks
+-- added to the side later pick it up. Tracks fall back to it, then the record's label
+CREATE TABLE IF NOT EXISTS public.side_labels (
+  record_id uuid NOT NULL REFERENCES public.records(id) ON DELETE CASCADE,
+  side text NOT NULL CHECK (side IN ('A', 'B')),
+  label_image_id uuid NOT NULL REFERENCES public.label_images(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (record_id, side)
+);
+
+CREATE INDEX IF NOT EXISTS side_labels_label_image_id_idx ON public.side_labels (label_image_id);
+
+GRANT SELECT ON public.side_labels TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.side_labels TO authenticated;
+GRANT ALL ON public.side_labels TO service_role;
+
+ALTER TABLE public.side_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view side labels"
+ON public.side_labels FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert side labels"
+ON public.side_labels FOR INSERT TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update side labels"
+ON public.side_labels FOR UPDATE TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete side labels"
+ON public.side_labels FOR DELETE TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+COMMENT ON COLUMN public.tracks.label_image_id IS
+  'Label for this track alone. Null falls back to its side''s label, then the record''s, then the active one';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.side_labels;
@@ -0,0 +1,64 @@
+-- Deletes everything that has been in the Trash longer than the retention period and
+-- returns the files those rows pointed at, for the caller to remove from storage.
+-- Runs for admins and for the purge-expired-trash function (as service_role)
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS TABLE (bucket text, url text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  cutoff timestamptz;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Only admins can purge the Trash' USING ERRCODE = '42501';
+  END IF;
+
+  cutoff := now() - make_interval(days => COALESCE(
+    (SELECT trash_retention_days FROM public.player_settings ORDER BY created_at LIMIT 1),
+    30
+  ));
+
+  RETURN QUERY
+  WITH purged_tracks AS (
+    DELETE FROM public.tracks
+    WHERE deleted_at < cutoff
+    RETURNING audio_url, cover_url
+  ), purged_labels AS (
+    DELETE FROM public.label_images
+    WHERE deleted_at < cutoff
+    RETURNING image_url, variants
+  )
+  SELECT 'tracks'::text, audio_url FROM purged_tracks
+  UNION ALL
+  SELECT 'label-images'::text, cover_url FROM purged_tracks WHERE cover_url IS NOT NULL
+  UNION ALL
+  SELECT 'label-images'::text, image_url FROM purged_labels
+  UNION ALL
+  SELECT 'label-images'::text, variant->>'url'
+  FROM purged_labels, jsonb_array_elements(COALESCE(purged_labels.variants, '[]'::jsonb)) AS variant;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_expired_trash() TO authenticated, service_role;
+
+-- Once a day, whether or not anyone opens the dashboard. Needs the project URL and
+-- service role key in Vault as `project_url` and `service_role_key`
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-expired-trash',
+  '17 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/purge-expired-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);
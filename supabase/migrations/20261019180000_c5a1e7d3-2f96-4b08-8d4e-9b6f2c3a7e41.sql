@@ -0,0 +1,3 @@
+-- Back of the sleeve. Null shows the front art faded behind the tracklist instead
+ALTER TABLE public.records
+ADD COLUMN IF NOT EXISTS back_sleeve_url text;
@@ -88,6 +88,13 @@ export default {
             transform: "rotate(360deg)",
           },
         },
+        // Edge-on at the midpoint, so the label never shows mirrored
+        "flip-record": {
+          "0%": { transform: "perspective(1200px) rotateY(0deg)" },
+          "50%": { transform: "perspective(1200px) rotateY(90deg) translateZ(40px)" },
+          "50.01%": { transform: "perspective(1200px) rotateY(-90deg) translateZ(40px)" },
+          "100%": { transform: "perspective(1200px) rotateY(0deg)" },
+        },
         "glow-pulse": {
           "0%, 100%": {
             opacity: "1",
@@ -114,6 +121,7 @@ export default {
         "accordion-up": "accordion-up 0.2s ease-out",
         "spin-vinyl": "spin-vinyl 5s linear infinite",
         "glow-pulse": "glow-pulse 2s ease-in-out infinite",
+        "flip-record": "flip-record 0.8s ease-in-out",
         "fade-in": "fade-in 0.6s ease-out",
       },
     },